@@ -0,0 +1,36 @@
+const fs = require('fs');
+const {createQueue} = require('./storage/queue');
+
+const ACTIONS = ['account.create', 'account.update', 'account.delete', 'login.success', 'login.failure', 'lockout.clear', 'password.change',
+    'password.reset', 'recovery.failure', '2fa.enable', '2fa.disable'];
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+// Append-only audit trail, one JSON object per line. Entries name the fields that changed but
+// never carry their values. Entries are timestamped with now, in milliseconds since the epoch.
+const createAuditLog = ({path: filePath, now = () => Date.now()}) => {
+    const enqueue = createQueue();
+
+    const record = ({action, actor, target, fields = [], ip}) => {
+        const entry = {timestamp: new Date(now()).toISOString(), action, actor: actor || null, target, fields, ip};
+        return enqueue(() => fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf-8'));
+    }
+
+    const load = () => fs.promises.readFile(filePath, 'utf-8')
+        .catch(err => err.code === 'ENOENT' ? '' : Promise.reject(err))
+        .then(contents => contents.split('\n').filter(line => line.trim()).map(line => JSON.parse(line)));
+
+    // Newest first. Every filter is optional; since/until are inclusive ISO timestamps.
+    const query = ({action, actor, target, since, until, limit}) => load().then(entries => entries
+        .filter(entry => !action || entry.action === action)
+        .filter(entry => !actor || entry.actor === actor)
+        .filter(entry => !target || entry.target === target)
+        .filter(entry => !since || entry.timestamp >= since)
+        .filter(entry => !until || entry.timestamp <= until)
+        .reverse()
+        .slice(0, limit));
+
+    return {record, query};
+}
+
+module.exports = {ACTIONS, DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT, createAuditLog};
@@ -0,0 +1,77 @@
+const {badRequest} = require('./errors');
+const {validate} = require('./schema');
+
+const CONTENT_TYPE = 'application/json';
+
+// Query strings only carry text, so numeric parameters are converted before they are checked
+const fromQuery = (schema, value) => {
+    if((schema.type === 'integer' || schema.type === 'number') && /^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    return value;
+}
+
+// Express middleware that holds every request and response to the OpenAPI document. Requests
+// that break it are rejected with a 400 before reaching a route; responses that break it are
+// replaced with a 500 CONTRACT_VIOLATION and logged, since that is a bug in the API itself.
+const createContract = (document) => {
+
+    const operationFor = (req) => {
+        const path = document.paths[req.path];
+        return path ? path[req.method.toLowerCase()] : undefined;
+    }
+
+    const checkRequest = (req, res, next) => {
+        const operation = operationFor(req);
+        // Unknown routes are left to notFoundHandler
+        if(!operation) return next();
+
+        const parameters = (operation.parameters || []).filter(parameter => parameter.in === 'query');
+        const problems = [];
+
+        parameters.forEach(({name, required, schema}) => {
+            const value = req.query[name];
+            if(value === undefined) {
+                if(required) problems.push({field: name, message: `${name} is required`});
+            }
+            else if(typeof value !== 'string') problems.push({field: name, message: `${name} must be given once`});
+            else problems.push(...validate(document, schema, fromQuery(schema, value), name));
+        });
+        Object.keys(req.query)
+            .filter(name => !parameters.some(parameter => parameter.name === name))
+            .forEach(name => problems.push({field: name, message: `${name} is not a known query parameter`}));
+
+        const {requestBody} = operation;
+        const hasBody = req.body !== undefined && Object.keys(req.body).length > 0;
+        if(requestBody && (requestBody.required || hasBody)) {
+            problems.push(...validate(document, requestBody.content[CONTENT_TYPE].schema, req.body === undefined ? {} : req.body));
+        }
+        else if(!requestBody && hasBody) problems.push({field: 'body', message: 'body is not expected'});
+
+        if(problems.length) throw badRequest("Request does not match the API contract", problems);
+        next();
+    }
+
+    const checkResponse = (req, res, next) => {
+        const operation = operationFor(req);
+        if(!operation) return next();
+
+        const send = res.json.bind(res);
+        res.json = (body) => {
+            const response = operation.responses[res.statusCode];
+            const content = response && response.content && response.content[CONTENT_TYPE];
+            const problems = !response ? [{field: 'status', message: `status ${res.statusCode} is not documented`}]
+                : !content ? [{field: 'body', message: 'body is not documented'}]
+                : validate(document, content.schema, body);
+            if(!problems.length) return send(body);
+
+            req.log.error("Response does not match the API contract", {method: req.method, path: req.path, problems});
+            res.status(500);
+            res.removeHeader('ETag');
+            return send({error: {code: 'CONTRACT_VIOLATION', message: "Response does not match the API contract", details: problems}});
+        }
+        next();
+    }
+
+    return {checkRequest, checkResponse};
+}
+
+module.exports = {createContract};
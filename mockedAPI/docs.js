@@ -0,0 +1,140 @@
+// Renders the OpenAPI document as one self-contained HTML page for GET /docs, so the API can be
+// browsed without any extra tooling. Schema names link to their definitions further down.
+
+const METHODS = ['get', 'post', 'put', 'delete'];
+
+const escape = (value) => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const schemaName = (schema) => schema.$ref.replace('#/components/schemas/', '');
+
+// A short, linked description of a schema's type, e.g. "User[]" or "light | dark"
+const typeOf = (schema) => {
+    if(schema.$ref) return `<a href="#schema-${schemaName(schema)}">${schemaName(schema)}</a>`;
+    if(schema.oneOf) return schema.oneOf.map(typeOf).join(' | ');
+    if(schema.enum) return schema.enum.map(value => `<code>${escape(JSON.stringify(value))}</code>`).join(' | ');
+
+    let type = escape(schema.type || 'any');
+    if(schema.type === 'array') type = `${typeOf(schema.items)}[]`;
+    else if(schema.type === 'object' && typeof schema.additionalProperties === 'object') type = `map of ${typeOf(schema.additionalProperties)}`;
+    else if(schema.format) type += ` (${escape(schema.format)})`;
+    return schema.nullable ? `${type} | null` : type;
+}
+
+const constraintsOf = (schema) => [
+    schema.minLength !== undefined && `at least ${schema.minLength} characters`,
+    schema.maxLength !== undefined && `at most ${schema.maxLength} characters`,
+    schema.pattern !== undefined && `matches <code>${escape(schema.pattern)}</code>`,
+    schema.minimum !== undefined && `at least ${schema.minimum}`,
+    schema.maximum !== undefined && `at most ${schema.maximum}`,
+    schema.default !== undefined && `defaults to <code>${escape(JSON.stringify(schema.default))}</code>`,
+].filter(Boolean).join(', ');
+
+const notes = (schema) => [schema.description && escape(schema.description), constraintsOf(schema)].filter(Boolean).join('. ');
+
+const table = (headings, rows) => rows.length ? `<table>
+<tr>${headings.map(heading => `<th>${heading}</th>`).join('')}</tr>
+${rows.map(cells => `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n')}
+</table>` : '';
+
+const renderParameters = (parameters = []) => table(
+    ['Parameter', 'In', 'Type', 'Required', 'Notes'],
+    parameters.map(parameter => [
+        `<code>${escape(parameter.name)}</code>`,
+        parameter.in,
+        typeOf(parameter.schema),
+        parameter.required ? 'yes' : 'no',
+        [parameter.description && escape(parameter.description), constraintsOf(parameter.schema)].filter(Boolean).join('. '),
+    ]),
+);
+
+const renderContent = (content) => Object.keys(content || {})
+    .map(type => `<code>${escape(type)}</code> ${typeOf(content[type].schema)}`)
+    .join(', ');
+
+const renderOperation = (path, method, operation) => {
+    const {requestBody} = operation;
+    const needsSession = (operation.security || []).some(requirement => requirement.bearerAuth);
+    const sessionOptional = (operation.security || []).some(requirement => !Object.keys(requirement).length);
+
+    return `<section id="${escape(operation.operationId)}">
+<h3><span class="method ${method}">${method.toUpperCase()}</span> <code>${escape(path)}</code></h3>
+<p>${escape(operation.summary)}${operation.description ? `. ${escape(operation.description)}` : ''}</p>
+${needsSession ? `<p class="auth">${sessionOptional ? 'Session optional' : 'Needs a session'}: <code>Authorization: Bearer &lt;token&gt;</code></p>` : ''}
+${renderParameters(operation.parameters)}
+${requestBody ? `<p>Body${requestBody.required ? '' : ' (optional)'}: ${renderContent(requestBody.content)}</p>` : ''}
+${table(['Status', 'Meaning', 'Body'], Object.keys(operation.responses).map(status => [
+        status,
+        escape(operation.responses[status].description),
+        renderContent(operation.responses[status].content),
+    ]))}
+</section>`;
+}
+
+const renderSchema = (name, schema) => {
+    const properties = schema.properties || {};
+    const required = schema.required || [];
+
+    return `<section id="schema-${escape(name)}">
+<h3>${escape(name)}</h3>
+${schema.properties ? table(['Field', 'Type', 'Required', 'Notes'], Object.keys(properties).map(key => [
+        `<code>${escape(key)}</code>`,
+        typeOf(properties[key]),
+        required.includes(key) ? 'yes' : 'no',
+        notes(properties[key]),
+    ])) : `<p>${typeOf(schema)}${notes(schema) ? `. ${notes(schema)}` : ''}</p>`}
+${schema.properties && schema.additionalProperties === false ? '<p>No other fields are allowed.</p>' : ''}
+</section>`;
+}
+
+const renderDocs = (document) => {
+    const operations = [];
+    Object.keys(document.paths).forEach(path => {
+        METHODS.filter(method => document.paths[path][method])
+            .forEach(method => operations.push({path, method, operation: document.paths[path][method]}));
+    });
+    const schemas = document.components.schemas;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escape(document.info.title)}</title>
+<style>
+    body { font-family: sans-serif; max-width: 960px; margin: 0 auto; padding: 0 20px 40px; color: #222; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 12px; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    section { border-top: 1px solid #eee; padding-top: 8px; }
+    .method { display: inline-block; min-width: 64px; padding: 2px 6px; border-radius: 4px; color: white; text-align: center; }
+    .get { background: #03668C; }
+    .post { background: #2E7D32; }
+    .put { background: #8A5A00; }
+    .delete { background: #C0283B; }
+    .auth { font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escape(document.info.title)} <small>${escape(document.info.version)}</small></h1>
+<p>${escape(document.info.description)}</p>
+<p>Machine-readable version: <a href="openapi.json">openapi.json</a> (OpenAPI ${escape(document.openapi)})</p>
+<nav>
+<h2>Routes</h2>
+<ul>
+${operations.map(({path, method, operation}) => `<li><a href="#${escape(operation.operationId)}">${method.toUpperCase()} ${escape(path)}</a> ${escape(operation.summary)}</li>`).join('\n')}
+</ul>
+</nav>
+<main>
+<h2>Operations</h2>
+${operations.map(({path, method, operation}) => renderOperation(path, method, operation)).join('\n')}
+<h2>Schemas</h2>
+${Object.keys(schemas).map(name => renderSchema(name, schemas[name])).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+module.exports = {renderDocs};
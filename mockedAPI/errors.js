@@ -0,0 +1,48 @@
+// Errors thrown from routes and middleware are turned into JSON responses by errorHandler:
+// {"error": {"code": "ACCOUNT_EXISTS", "message": "Account Already Exists"}}
+class ApiError extends Error {
+    constructor(status, code, message, details) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+const badRequest = (message, details) => new ApiError(400, 'VALIDATION_FAILED', message, details);
+const notAuthenticated = (message = "Not Authenticated") => new ApiError(401, 'NOT_AUTHENTICATED', message);
+const forbidden = () => new ApiError(403, 'FORBIDDEN', "Forbidden");
+const accountNotFound = () => new ApiError(404, 'ACCOUNT_NOT_FOUND', "Account Does Not Exist");
+const accountExists = () => new ApiError(409, 'ACCOUNT_EXISTS', "Account Already Exists");
+
+const notFoundHandler = (req, res, next) => {
+    next(new ApiError(404, 'NOT_FOUND', `No route for ${req.method} ${req.path}`));
+}
+
+const errorHandler = (err, req, res, next) => {
+    if(res.headersSent) return next(err);
+
+    // Malformed JSON bodies are rejected by express.json() before reaching a route
+    if(err.type === 'entity.parse.failed') err = new ApiError(400, 'INVALID_JSON', "Request body is not valid JSON");
+    if(err.type === 'entity.too.large') err = new ApiError(413, 'PAYLOAD_TOO_LARGE', "Request body is too large");
+
+    if(!(err instanceof ApiError)) {
+        req.log.error("Unhandled error", {error: err});
+        err = new ApiError(500, 'INTERNAL_ERROR', "Internal Server Error");
+    }
+
+    const {code, message, details} = err;
+    res.status(err.status).json({error: details ? {code, message, details} : {code, message}});
+}
+
+module.exports = {
+    ApiError,
+    badRequest,
+    notAuthenticated,
+    forbidden,
+    accountNotFound,
+    accountExists,
+    notFoundHandler,
+    errorHandler,
+};
@@ -0,0 +1,185 @@
+// Writes src/api/client.ts, a typed client for every operation in openapi.js, used by both the
+// React app and the test suite. Run `npm run generate:client` whenever openapi.js changes.
+const fs = require('fs');
+const path = require('path');
+const {document} = require('./openapi');
+
+const OUTPUT_PATH = path.join(__dirname, '..', 'src', 'api', 'client.ts');
+const METHODS = ['get', 'post', 'put', 'delete'];
+const INDENT = '    ';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const propertyName = (name) => IDENTIFIER.test(name) ? name : `'${name}'`;
+
+const capitalize = (name) => `${name[0].toUpperCase()}${name.slice(1)}`;
+
+const literal = (value) => typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+
+const comment = (description, indent) => description ? `${indent}// ${description}\n` : '';
+
+const unique = (types) => types.filter((type, index) => types.indexOf(type) === index);
+
+// TypeScript for a schema. Objects with properties become type literals, nested at indent.
+const typeOf = (schema, indent = '') => {
+    if(schema.$ref) return schema.$ref.replace('#/components/schemas/', '');
+
+    let types;
+    if(schema.oneOf) types = schema.oneOf.map(option => typeOf(option, indent));
+    else if(schema.enum) types = schema.enum.map(literal);
+    else if(schema.type === 'string') types = ['string'];
+    else if(schema.type === 'number' || schema.type === 'integer') types = ['number'];
+    else if(schema.type === 'boolean') types = ['boolean'];
+    else if(schema.type === 'array') {
+        const items = typeOf(schema.items, indent);
+        types = [/[ |]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`];
+    }
+    else if(schema.type === 'object' && schema.properties) types = [objectType(schema, indent)];
+    else if(schema.type === 'object' && typeof schema.additionalProperties === 'object') {
+        types = [`{[key: string]: ${typeOf(schema.additionalProperties, indent)}}`];
+    }
+    else if(schema.type === 'object') types = ['{[key: string]: unknown}'];
+    else types = ['unknown'];
+
+    if(schema.nullable) types.push('null');
+    return unique(types).join(' | ');
+}
+
+const objectType = (schema, indent) => {
+    const required = schema.required || [];
+    const inner = `${indent}${INDENT}`;
+    const fields = Object.keys(schema.properties).map(name => {
+        const property = schema.properties[name];
+        const optional = required.includes(name) ? '' : '?';
+        return `${comment(property.description, inner)}${inner}${propertyName(name)}${optional}: ${typeOf(property, inner)},\n`;
+    });
+    return `{\n${fields.join('')}${indent}}`;
+}
+
+const renderSchema = (name, schema) => {
+    const declaration = schema.type === 'object' && schema.properties
+        ? `export interface ${name} ${objectType(schema, '')}`
+        : `export type ${name} = ${typeOf(schema)};`;
+    return `${comment(schema.description, '')}${declaration}\n`;
+}
+
+const operationsOf = (document) => {
+    const operations = [];
+    Object.keys(document.paths).forEach(route => {
+        METHODS.filter(method => document.paths[route][method]).forEach(method => {
+            operations.push({route, method, operation: document.paths[route][method]});
+        });
+    });
+    return operations;
+}
+
+// Responses that come in several formats, such as an export, have a body of any of their types
+const bodyType = (response) => {
+    if(!response.content) return 'undefined';
+    return unique(Object.keys(response.content).map(type => typeOf(response.content[type].schema))).join(' | ');
+}
+
+// The request argument's type, or undefined when the operation takes no input at all
+const requestType = (operation) => {
+    const parameters = operation.parameters || [];
+    const parts = ['query', 'header'].map(location => {
+        const matching = parameters.filter(parameter => parameter.in === location);
+        if(!matching.length) return null;
+        const schema = {
+            type: 'object',
+            required: matching.filter(parameter => parameter.required).map(parameter => parameter.name),
+            properties: matching.reduce((all, parameter) => ({...all, [parameter.name]: {...parameter.schema, description: parameter.description}}), {}),
+        };
+        return {name: location === 'query' ? 'query' : 'headers', schema, required: schema.required.length > 0};
+    }).filter(Boolean);
+
+    const {requestBody} = operation;
+    if(requestBody) {
+        const [type] = Object.keys(requestBody.content);
+        parts.push({name: 'body', schema: requestBody.content[type].schema, required: requestBody.required});
+    }
+    if(!parts.length) return undefined;
+
+    return {
+        schema: {
+            type: 'object',
+            required: parts.filter(part => part.required).map(part => part.name),
+            properties: parts.reduce((all, part) => ({...all, [part.name]: part.schema}), {}),
+        },
+        required: parts.some(part => part.required),
+    };
+}
+
+const renderOperationTypes = ({operation}) => {
+    const name = capitalize(operation.operationId);
+    const request = requestType(operation);
+    const statuses = Object.keys(operation.responses);
+
+    const requestDeclaration = request ? `export interface ${name}Request ${objectType(request.schema, '')}\n\n` : '';
+    const responseDeclaration = `export type ${name}Response =\n${statuses
+        .map(status => `${INDENT}| ApiResponse<${status}, ${bodyType(operation.responses[status])}>`)
+        .join('\n')};\n`;
+    return `${requestDeclaration}${responseDeclaration}`;
+}
+
+const renderOperation = ({route, method, operation}) => {
+    const name = capitalize(operation.operationId);
+    const request = requestType(operation);
+    const argument = !request ? '' : request.required ? `request: ${name}Request` : `request: ${name}Request = {}`;
+    const spread = request ? ', ...request' : '';
+
+    return `${comment(operation.summary, INDENT)}${INDENT}${operation.operationId}: (${argument}) => `
+        + `transport({method: '${method.toUpperCase()}', path: '${route}'${spread}}) as Promise<${name}Response>,\n`;
+}
+
+const generateClient = (document) => {
+    const operations = operationsOf(document);
+    const schemas = document.components.schemas;
+    const successStatuses = unique(operations
+        .reduce((all, {operation}) => all.concat(Object.keys(operation.responses)), [])
+        .filter(status => status.startsWith('2')))
+        .sort();
+
+    return `// Generated from mockedAPI/openapi.js by mockedAPI/generate-client.js; do not edit by hand.
+// Run \`npm run generate:client\` after changing the API contract.
+
+${Object.keys(schemas).map(name => renderSchema(name, schemas[name])).join('\n')}
+export interface ApiRequest {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    query?: {[name: string]: string | number | undefined},
+    headers?: {[name: string]: string | undefined},
+    body?: unknown,
+}
+
+export interface ApiResponse<Status extends number, Body> {
+    status: Status,
+    body: Body,
+    // Header names are lower case
+    headers: {[name: string]: string},
+}
+
+// Sends a request and resolves with whatever status comes back; only network failures reject.
+// The base URL and the session token are the transport's business.
+export type Transport = (request: ApiRequest) => Promise<ApiResponse<number, unknown>>;
+
+export type SuccessStatus = ${successStatuses.join(' | ')};
+
+// The members of a response union that mean the request worked
+export type Success<Response> = Response extends ApiResponse<SuccessStatus, unknown> ? Response : never;
+
+${operations.map(renderOperationTypes).join('\n')}
+export const createClient = (transport: Transport) => ({
+${operations.map(renderOperation).join('')}});
+
+export type ApiClient = ReturnType<typeof createClient>;
+`;
+}
+
+if(require.main === module) {
+    fs.mkdirSync(path.dirname(OUTPUT_PATH), {recursive: true});
+    fs.writeFileSync(OUTPUT_PATH, generateClient(document), 'utf-8');
+    console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+module.exports = {generateClient};
@@ -0,0 +1,175 @@
+const {badRequest} = require('./errors');
+const {FIELD_RULES, validateAccount} = require('../shared/account');
+
+const FORMATS = ['csv', 'json'];
+
+// What an import does with a username that is already taken
+const CONFLICT_POLICIES = ['skip', 'overwrite', 'fail'];
+
+const MAX_IMPORT_ROWS = 1000;
+
+// The columns of an export, in order. Passwords, their history and two-factor secrets are never exported.
+const EXPORT_FIELDS = ['username', 'name', 'role', 'favouriteFruit', 'favouriteMovie', 'favouriteNumber'];
+
+// An import may also carry a password, which new accounts need
+const IMPORT_FIELDS = Object.keys(FIELD_RULES);
+
+const invalidImport = (message) => badRequest("Invalid import", [{field: 'content', message: `content ${message}`}]);
+
+// Spreadsheet apps run a cell starting with one of these as a formula, e.g. =HYPERLINK(...). Text
+// that already starts with ' before one of them is guarded too, so the ' an import strips is always ours.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+const GUARDED_FORMULA = /^'+[=+\-@\t\r]/;
+
+// Quotes a cell when it holds a comma, a quote or a line break, doubling any quotes inside. Text that
+// would start a formula gets a leading ' so an admin opening the export sees it as plain text.
+const csvCell = (value) => {
+    const raw = value === undefined || value === null ? '' : String(value);
+    const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Undoes csvCell's formula guard, so an export imports back unchanged
+const csvValue = (cell) => GUARDED_FORMULA.test(cell) ? cell.slice(1) : cell;
+
+const toCsv = (fields, records) => [fields, ...records.map(record => fields.map(field => record[field]))]
+    .map(cells => `${cells.map(csvCell).join(',')}\r\n`)
+    .join('');
+
+// Splits CSV text into rows of cells. Quoted cells may hold commas, doubled quotes and line breaks;
+// rows end with \n or \r\n.
+const parseCsv = (text) => {
+    const rows = [];
+    let row = [];
+    let cell = '';
+    let quoted = false;
+
+    for(let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if(quoted) {
+            if(char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            }
+            else if(char === '"') quoted = false;
+            else cell += char;
+        }
+        else if(char === '"' && cell === '') quoted = true;
+        else if(char === ',') {
+            row.push(cell);
+            cell = '';
+        }
+        else if(char === '\n' || char === '\r') {
+            if(char === '\r' && text[i + 1] === '\n') i++;
+            rows.push([...row, cell]);
+            row = [];
+            cell = '';
+        }
+        else cell += char;
+    }
+    if(quoted) throw invalidImport('has a quoted cell that is never closed');
+    if(cell !== '' || row.length) rows.push([...row, cell]);
+
+    return rows;
+}
+
+// The header row names the fields; empty cells are left out, so optional fields such as role and
+// password fall back to what they would be if the column were missing
+const recordsFromCsv = (content) => {
+    const [header = [], ...rows] = parseCsv(content).filter(cells => cells.some(cell => cell.trim() !== ''));
+    const columns = header.map(name => name.trim());
+
+    const unknown = columns.filter(name => !IMPORT_FIELDS.includes(name));
+    if(unknown.length) throw invalidImport(`has unknown columns ${unknown.join(', ')}; expected ${IMPORT_FIELDS.join(', ')}`);
+    if(!columns.includes('username')) throw invalidImport('needs a username column');
+
+    return rows.map(cells => columns.reduce((record, name, index) => {
+        const value = cells[index];
+        return value === undefined || value === '' ? record : {...record, [name]: csvValue(value)};
+    }, {}));
+}
+
+const recordsFromJson = (content) => {
+    let records;
+    try {
+        records = JSON.parse(content);
+    } catch(e) {
+        throw invalidImport('is not valid JSON');
+    }
+    if(!Array.isArray(records)) throw invalidImport('must be a JSON array of accounts');
+    return records;
+}
+
+// Reads the accounts out of an uploaded file's text
+const parseImport = (format, content) => {
+    const records = format === 'csv' ? recordsFromCsv(content) : recordsFromJson(content);
+    if(!records.length) throw invalidImport('has no accounts');
+    if(records.length > MAX_IMPORT_ROWS) throw invalidImport(`has more than ${MAX_IMPORT_ROWS} accounts`);
+    return records;
+}
+
+// Decides what happens to each record, without writing anything. Rows are numbered from 1, not
+// counting a CSV header, and get one of these actions:
+//   create, update  the record is valid; update only happens when onConflict is overwrite
+//   skip            the username is taken and onConflict is skip
+//   conflict        the username is taken and onConflict is fail
+//   invalid         problems lists what is wrong with the record
+// exists(username) says whether an account is stored; passwordProblems(password) applies the password policy.
+const planImport = (records, {onConflict, exists, passwordProblems}) => {
+    const seen = new Set();
+
+    return records.map((record, index) => {
+        const row = index + 1;
+        if(!record || typeof record !== 'object' || Array.isArray(record)) {
+            return {row, username: '', action: 'invalid', problems: [{field: 'row', message: 'row must be an object'}]};
+        }
+
+        const username = typeof record.username === 'string' ? record.username : '';
+        const duplicate = username !== '' && seen.has(username);
+        seen.add(username);
+        if(duplicate) {
+            return {row, username, action: 'invalid', problems: [{field: 'username', message: 'username appears more than once in the import'}]};
+        }
+
+        const taken = username !== '' && exists(username);
+        if(taken && onConflict === 'skip') return {row, username, action: 'skip', problems: []};
+        if(taken && onConflict === 'fail') {
+            return {row, username, action: 'conflict', problems: [{field: 'username', message: 'username is already taken'}]};
+        }
+
+        const problems = validateAccount(record, {creating: !taken}).map(({field, message}) => ({field, message}));
+        if(typeof record.password === 'string' && !problems.some(problem => problem.field === 'password')) {
+            passwordProblems(record.password).forEach(problem => problems.push({field: 'password', message: `password ${problem}`}));
+        }
+
+        return {row, username, action: problems.length ? 'invalid' : taken ? 'update' : 'create', problems};
+    });
+}
+
+// Counts how many rows got each action
+const summarize = (rows) => ({
+    created: rows.filter(row => row.action === 'create').length,
+    updated: rows.filter(row => row.action === 'update').length,
+    skipped: rows.filter(row => row.action === 'skip').length,
+    conflicts: rows.filter(row => row.action === 'conflict').length,
+    invalid: rows.filter(row => row.action === 'invalid').length,
+});
+
+// The problems of every row, as error details named rows.<row>.<field>
+const rowProblems = (rows) => rows.reduce((all, {row, problems}) => all.concat(problems.map(({field, message}) => ({
+    field: `rows.${row}.${field}`,
+    message: `row ${row}: ${message}`,
+}))), []);
+
+module.exports = {
+    FORMATS,
+    CONFLICT_POLICIES,
+    MAX_IMPORT_ROWS,
+    EXPORT_FIELDS,
+    toCsv,
+    parseCsv,
+    parseImport,
+    planImport,
+    summarize,
+    rowProblems,
+};
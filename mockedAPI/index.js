@@ -1,86 +1,65 @@
 const fs = require('fs');
-const express = require('express');
-const http = require('http');
-const app = express();
-
-app.use(express.json());
-
-app.get('/', (req, res) => {
-    console.log("Backend Request Path: /")
-    res.send("Backend API");
-})
-
-
-app.post('/user', (req, res) => {
-    console.log("Creating New User")
-    console.log("Backend Request Path: /user")
-    const {username, name, password, favouriteFruit, favouriteMovie, favouriteNumber} = req.body;
-    console.log({username, name, password, favouriteNumber, favouriteMovie, favouriteFruit});
-
-    const accounts = fs.readFileSync('./storage/account.json', 'utf-8');
-
-    console.log(accounts);
-
-    const data = JSON.parse(accounts);
-
-    const user = {
-        name,
-        password,
-        favouriteFruit,
-        favouriteMovie,
-        favouriteNumber,
-    }
-
-    if(!data[username]) data[username] = user;
-    else res.send("Account Already Exists");
-
-    fs.writeFileSync('./storage/account.json', JSON.stringify(data, 2, 4), 'utf-8', res.send("Account Created"));
-})
-
-
-app.delete('/user', (req, res) => {
-    console.log(`Deleting User`);
-    const username = req.param('username');
-
-    console.log(`Backend Request Path: /deleteUser?username=${username}`);
-    const accounts = fs.readFileSync('./storage/account.json', 'utf-8');
-    const data = JSON.parse(accounts);
-
-    if(data[username]) delete data[username];
-    else res.send("Account Does Not Exist");
-
-    console.log(data);
-    fs.writeFileSync('./storage/account.json', JSON.stringify(data, 2, 4), 'utf-8', res.send("Account Deleted"));
-})
-
-app.put('/user', (req, res) => {
-    console.log("Updating User");
-    const username = req.param('username');
-    console.log(`Backend Request Path: /deleteUser?username=${username}`);
-    const accounts = fs.readFileSync('./storage/account.json', 'utf-8');
-
-    const {name, password, favouriteFruit, favouriteMovie, favouriteNumber} = req.body;
-    console.log({username, name, password, favouriteNumber, favouriteMovie, favouriteFruit});
-
-    const data = JSON.parse(accounts);
-
-    const user = {
-        name,
-        password,
-        favouriteFruit,
-        favouriteNumber,
+const {createServer} = require('./server');
+const {createLogger} = require('./logger');
+
+// Starts the mock API from the command line. Each option is a flag or an environment variable,
+// and a flag wins when both are set:
+//   --port <n>            PORT             defaults to 9999
+//   --storage <path>      STORAGE_PATH     the accounts file; the default depends on the backend
+//   --backend <name>      STORAGE_BACKEND  json (default), memory or nedb
+//   --audit-log <path>    AUDIT_LOG_PATH   defaults to ./storage/audit.log
+//   --seed <path>         SEED_PATH        a JSON accounts file to start from instead of what is stored
+// The session, lockout and password settings are read from the environment, see server.js.
+// Logs are JSON lines on stdout; LOG_LEVEL picks the quietest level written (debug, info, warn, error or silent).
+const FLAGS = {
+    port: 'PORT',
+    storage: 'STORAGE_PATH',
+    backend: 'STORAGE_BACKEND',
+    'audit-log': 'AUDIT_LOG_PATH',
+    seed: 'SEED_PATH',
+};
+
+// Reads --name value and --name=value pairs into {name: value}
+const parseFlags = (args) => {
+    const flags = {};
+    for(let i = 0; i < args.length; i++) {
+        const match = /^--([^=]+)(?:=(.*))?$/.exec(args[i]);
+        if(!match || !FLAGS[match[1]]) throw new Error(`Unknown argument "${args[i]}", expected one of ${Object.keys(FLAGS).map(name => `--${name}`).join(', ')}`);
+
+        flags[match[1]] = match[2] !== undefined ? match[2] : args[++i];
     }
-
-    if(data[username]) data[username] = user;
-    else res.send("Account Does NOT Exist");
-
-    console.log(data);
-
-    fs.writeFileSync('./storage/account.json', JSON.stringify(data, 2, 4), 'utf-8', res.send("Account Updated"));
-})
-
-http.createServer(app).listen(9999, () => {
-    console.log("Application listening on PORT 9999");
-});
-
-
+    return flags;
+}
+
+const logger = createLogger({level: process.env.LOG_LEVEL});
+
+const readOptions = (args, env) => {
+    const flags = parseFlags(args);
+    const option = (name) => flags[name] !== undefined ? flags[name] : env[FLAGS[name]];
+
+    const seedPath = option('seed');
+    return {
+        port: Number(option('port') || 9999),
+        storagePath: option('storage'),
+        storageBackend: option('backend'),
+        auditLogPath: option('audit-log'),
+        seed: seedPath ? JSON.parse(fs.readFileSync(seedPath, 'utf-8')) : undefined,
+        env,
+        logger,
+    };
+}
+
+Promise.resolve()
+    .then(() => createServer(readOptions(process.argv.slice(2), process.env)))
+    .then(server => {
+        logger.info("Application listening", {port: server.port});
+
+        // Finish the requests in flight before exiting
+        const shutdown = () => server.close().then(() => process.exit(0));
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+    })
+    .catch(err => {
+        logger.error("Could not start the server", {error: err.message});
+        process.exit(1);
+    });
@@ -0,0 +1,38 @@
+// Counts consecutive failed logins per key ("user:<name>", "ip:<address>") and locks a key for
+// a cooldown once it reaches its limit. State lives in memory, so a restart clears every lock.
+const createLockout = ({limits, cooldownSeconds, now = () => Date.now()}) => {
+    const failures = new Map();
+    const lockedUntil = new Map();
+
+    const limitFor = (key) => limits[key.split(':')[0]];
+
+    // Seconds until every given key is unlocked, or 0 when none of them is locked
+    const retryAfter = (keys) => {
+        const remaining = keys.map(key => (lockedUntil.get(key) || 0) - now());
+        const longest = Math.max(0, ...remaining);
+        return Math.ceil(longest / 1000);
+    }
+
+    const fail = (keys) => {
+        keys.forEach(key => {
+            const count = (failures.get(key) || 0) + 1;
+            if(count >= limitFor(key)) {
+                failures.delete(key);
+                lockedUntil.set(key, now() + cooldownSeconds * 1000);
+            } else {
+                failures.set(key, count);
+            }
+        });
+    }
+
+    const clear = (keys) => {
+        keys.forEach(key => {
+            failures.delete(key);
+            lockedUntil.delete(key);
+        });
+    }
+
+    return {retryAfter, fail, succeed: clear, clear};
+}
+
+module.exports = {createLockout};
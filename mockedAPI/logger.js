@@ -0,0 +1,45 @@
+// Leveled logs, one JSON object per line: {"time", "level", "msg", ...fields}. Any field whose
+// name looks like it holds a credential is replaced with "[REDACTED]", however deeply it is nested,
+// so request bodies and errors can be logged without leaking passwords, tokens or TOTP secrets.
+
+const LEVELS = ['debug', 'info', 'warn', 'error'];
+
+const REDACTED = '[REDACTED]';
+
+// password, currentPassword, passwordHistory, secret, token, resetToken, authorization, recoveryCodes, answers, ...
+const SENSITIVE_FIELD = /pass(word)?|secret|token|authorization|cookie|recoverycodes|answers/i;
+
+const redact = (value, seen = new WeakSet()) => {
+    if(value instanceof Error) return redact({name: value.name, message: value.message, stack: value.stack}, seen);
+    if(!value || typeof value !== 'object') return value;
+    if(seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if(Array.isArray(value)) return value.map(item => redact(item, seen));
+    return Object.keys(value).reduce((all, key) => ({
+        ...all,
+        [key]: SENSITIVE_FIELD.test(key) ? REDACTED : redact(value[key], seen),
+    }), {});
+}
+
+// level is the quietest level written: debug, info (default), warn, error or silent.
+// write receives each finished line, without its newline.
+const createLogger = ({level = 'info', write = (line) => process.stdout.write(`${line}\n`), fields = {}} = {}) => {
+    const threshold = level === 'silent' ? LEVELS.length : Math.max(LEVELS.indexOf(level), 0);
+
+    const log = (entryLevel) => (msg, extra = {}) => {
+        if(LEVELS.indexOf(entryLevel) < threshold) return;
+        write(JSON.stringify({time: new Date().toISOString(), level: entryLevel, msg, ...redact({...fields, ...extra})}));
+    }
+
+    return {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: log('error'),
+        // A logger that adds these fields to every entry, e.g. the request id
+        child: (extra) => createLogger({level, write, fields: {...fields, ...extra}}),
+    };
+}
+
+module.exports = {LEVELS, REDACTED, redact, createLogger};
@@ -0,0 +1,64 @@
+// Request metrics in the Prometheus text format, served at GET /metrics:
+//   http_requests_total{method, route, status}         every response
+//   http_request_errors_total{method, route, status}   responses with a 4xx or 5xx status
+//   http_request_duration_seconds{method, route}       a latency histogram
+// route is the Express route pattern, e.g. /user/2fa, so a label never holds a username or token.
+
+// Upper bounds in seconds, suited to a mock API that answers in milliseconds unless it hashes a password
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const labels = (values) => `{${Object.keys(values).map(name => `${name}="${escapeLabel(values[name])}"`).join(',')}}`;
+
+const createMetrics = ({buckets = DEFAULT_BUCKETS} = {}) => {
+    const requests = new Map();
+    const errors = new Map();
+    const durations = new Map();
+
+    const count = (series, values) => {
+        const key = labels(values);
+        series.set(key, (series.get(key) || 0) + 1);
+    }
+
+    const observe = ({method, route, status, seconds}) => {
+        count(requests, {method, route, status});
+        if(status >= 400) count(errors, {method, route, status});
+
+        const key = JSON.stringify([method, route]);
+        const histogram = durations.get(key) || {method, route, counts: buckets.map(() => 0), sum: 0, count: 0};
+        buckets.forEach((bound, index) => {
+            if(seconds <= bound) histogram.counts[index]++;
+        });
+        histogram.sum += seconds;
+        histogram.count++;
+        durations.set(key, histogram);
+    }
+
+    const renderCounter = (name, help, series) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...Array.from(series, ([key, value]) => `${name}${key} ${value}`),
+    ];
+
+    const renderHistogram = (name, help) => [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} histogram`,
+        ...Array.from(durations.values()).reduce((lines, {method, route, counts, sum, count: total}) => lines.concat(
+            counts.map((value, index) => `${name}_bucket${labels({method, route, le: buckets[index]})} ${value}`),
+            `${name}_bucket${labels({method, route, le: '+Inf'})} ${total}`,
+            `${name}_sum${labels({method, route})} ${sum}`,
+            `${name}_count${labels({method, route})} ${total}`,
+        ), []),
+    ];
+
+    const render = () => [
+        ...renderCounter('http_requests_total', "Requests answered, by route and status", requests),
+        ...renderCounter('http_request_errors_total', "Requests answered with a 4xx or 5xx status", errors),
+        ...renderHistogram('http_request_duration_seconds', "Time taken to answer a request"),
+    ].join('\n') + '\n';
+
+    return {observe, render};
+}
+
+module.exports = {DEFAULT_BUCKETS, createMetrics};
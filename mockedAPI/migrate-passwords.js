@@ -0,0 +1,20 @@
+// One-shot migration: replaces plaintext passwords in the account storage with scrypt hashes.
+// Entries that are already hashed are left untouched, so it is safe to run more than once.
+const fs = require('fs');
+const {isHashed, hashPassword} = require('./passwords');
+
+const storagePath = process.argv[2] || './storage/account.json';
+
+const data = JSON.parse(fs.readFileSync(storagePath, 'utf-8'));
+
+let migrated = 0;
+Object.keys(data).forEach(username => {
+    const {password} = data[username];
+    if(typeof password === 'string' && !isHashed(password)) {
+        data[username].password = hashPassword(password);
+        migrated++;
+    }
+});
+
+if(migrated) fs.writeFileSync(storagePath, JSON.stringify(data, null, 4), 'utf-8');
+console.log(`Migrated ${migrated} of ${Object.keys(data).length} accounts in ${storagePath}`);
@@ -0,0 +1,703 @@
+const {ROLES, USERNAME_PATTERN, MAX_FIELD_LENGTH, FIELD_RULES, CHARACTER_CLASSES} = require('../shared/account');
+const {THEMES, USER_LIST_FIELDS, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE} = require('./validation');
+const {FORMATS, CONFLICT_POLICIES, MAX_IMPORT_ROWS, EXPORT_FIELDS} = require('./import-export');
+const {ACTIONS, DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT} = require('./audit');
+const {QUESTIONS} = require('./recovery');
+
+// The contract for every route in server.js. It is served at GET /openapi.json and GET /docs,
+// checked against live traffic when OPENAPI_STRICT is on, and turned into src/api/client.ts by
+// generate-client.js; run `npm run generate:client` after changing it.
+
+const ref = (name) => ({$ref: `#/components/schemas/${name}`});
+
+const json = (description, schema) => ({description, content: {'application/json': {schema}}});
+
+const text = {type: 'string', minLength: 1, maxLength: MAX_FIELD_LENGTH};
+
+const timestamp = {type: 'string', format: 'date-time'};
+
+// The account fields a body must carry, taken from the shared rules so the contract and the validator agree
+const requiredFields = ({creating}) => Object.keys(FIELD_RULES).filter(field => {
+    const {required} = FIELD_RULES[field];
+    return required === 'always' || (creating && required === 'create');
+});
+
+const ERROR_DESCRIPTIONS = {
+    400: "The request is invalid; details name the fields at fault",
+    401: "No valid session, or wrong credentials",
+    403: "The session may not do this",
+    404: "The account does not exist",
+    409: "The request conflicts with the account's current state",
+    412: "If-Match named a stale version of the account",
+    413: "The request body is too large",
+    429: "Too many failed attempts; Retry-After says how many seconds to wait",
+    500: "Something went wrong on the server",
+};
+
+const withErrors = (responses, statuses) => statuses.reduce((all, status) => ({
+    ...all,
+    [status]: json(ERROR_DESCRIPTIONS[status], ref('ErrorResponse')),
+}), responses);
+
+const etag = {ETag: {description: "The account's version", schema: {type: 'string'}}};
+
+const profileResponse = (description) => ({...json(description, ref('User')), headers: etag});
+
+const noContent = (description) => ({description});
+
+const query = (name, schema, description, required = false) => ({name, in: 'query', required, description, schema});
+
+const usernameQuery = query('username', {type: 'string'}, "The account to act on", true);
+
+const ifMatch = {
+    name: 'If-Match',
+    in: 'header',
+    required: false,
+    description: "Only act if the account is still at this version, e.g. \"3\"",
+    schema: {type: 'string'},
+};
+
+const body = (schema, required = true) => ({required, content: {'application/json': {schema}}});
+
+const SESSION = [{bearerAuth: []}];
+
+const document = {
+    openapi: '3.0.3',
+    info: {
+        title: 'qa.code-quiz.dev mock API',
+        version: '1.0.0',
+        description: "Accounts, sessions, password recovery and two-factor authentication for the quiz app. "
+            + "Errors are always {\"error\": {\"code\", \"message\", \"details\"?}}.",
+    },
+    servers: [{url: 'http://localhost:9999'}],
+    paths: {
+        '/': {
+            get: {
+                operationId: 'getRoot',
+                summary: "Check the API is up",
+                responses: {
+                    200: {description: "The API is up", content: {'text/plain': {schema: {type: 'string'}}}},
+                },
+            },
+        },
+        '/openapi.json': {
+            get: {
+                operationId: 'getOpenApiDocument',
+                summary: "This document",
+                responses: {
+                    200: json("The OpenAPI document", {type: 'object'}),
+                },
+            },
+        },
+        '/docs': {
+            get: {
+                operationId: 'getDocs',
+                summary: "This document as a web page",
+                responses: {
+                    200: {description: "HTML documentation", content: {'text/html': {schema: {type: 'string'}}}},
+                },
+            },
+        },
+        '/health': {
+            get: {
+                operationId: 'getHealth',
+                summary: "Check the API and its storage are working",
+                responses: {
+                    200: json("Everything is working", ref('Health')),
+                    503: json("A check is failing", ref('Health')),
+                },
+            },
+        },
+        '/metrics': {
+            get: {
+                operationId: 'getMetrics',
+                summary: "Request counts, error counts and latency histograms per route, in the Prometheus text format",
+                responses: {
+                    200: {description: "Prometheus metrics", content: {'text/plain': {schema: {type: 'string'}}}},
+                },
+            },
+        },
+        '/user': {
+            get: {
+                operationId: 'getUser',
+                summary: "Read an account",
+                description: "Users may read their own account, admins any account.",
+                security: SESSION,
+                parameters: [usernameQuery],
+                responses: withErrors({200: profileResponse("The account")}, [400, 401, 403, 404, 500]),
+            },
+            post: {
+                operationId: 'createUser',
+                summary: "Create an account",
+                description: "Anyone may sign up as a user; only admins may create admins.",
+                security: [{}, ...SESSION],
+                requestBody: body(ref('NewAccount')),
+                responses: withErrors({201: profileResponse("The new account")}, [400, 401, 403, 409, 500]),
+            },
+            put: {
+                operationId: 'updateUser',
+                summary: "Update an account",
+                description: "Replaces the profile fields. Only admins may change a role or set a password here.",
+                security: SESSION,
+                parameters: [usernameQuery, ifMatch],
+                requestBody: body(ref('AccountUpdate')),
+                responses: withErrors({200: profileResponse("The updated account")}, [400, 401, 403, 404, 412, 500]),
+            },
+            delete: {
+                operationId: 'deleteUser',
+                summary: "Delete an account",
+                security: SESSION,
+                parameters: [usernameQuery, ifMatch],
+                responses: withErrors({204: noContent("The account is gone")}, [400, 401, 403, 404, 412, 500]),
+            },
+        },
+        '/user/password': {
+            put: {
+                operationId: 'changePassword',
+                summary: "Change the session's own password",
+                description: "Wrong current passwords count towards the login lockout.",
+                security: SESSION,
+                parameters: [ifMatch],
+                requestBody: body(ref('PasswordChange')),
+                responses: withErrors({200: profileResponse("The account")}, [400, 401, 404, 412, 429, 500]),
+            },
+        },
+        '/user/theme': {
+            put: {
+                operationId: 'saveTheme',
+                summary: "Save the session's display theme",
+                description: "Not a profile change, so the version stays the same.",
+                security: SESSION,
+                requestBody: body(ref('ThemeChoice')),
+                responses: withErrors({200: profileResponse("The account")}, [400, 401, 404, 500]),
+            },
+        },
+        '/password-policy': {
+            get: {
+                operationId: 'getPasswordPolicy',
+                summary: "Read the rules new passwords must follow",
+                responses: withErrors({200: json("The password policy", ref('PasswordPolicy'))}, [500]),
+            },
+        },
+        '/password-reset/challenge': {
+            post: {
+                operationId: 'startPasswordReset',
+                summary: "Start a forgotten-password recovery",
+                description: "Looks the same whether or not the account exists.",
+                requestBody: body(ref('RecoveryStart')),
+                responses: withErrors({200: json("Security questions to answer", ref('RecoveryChallenge'))}, [400, 500]),
+            },
+        },
+        '/password-reset/verify': {
+            post: {
+                operationId: 'verifyPasswordReset',
+                summary: "Answer the security questions",
+                requestBody: body(ref('RecoveryAnswers')),
+                responses: withErrors({200: json("A token for setting a new password", ref('ResetToken'))}, [400, 401, 429, 500]),
+            },
+        },
+        '/password-reset': {
+            post: {
+                operationId: 'resetPassword',
+                summary: "Set a new password with a reset token",
+                requestBody: body(ref('PasswordReset')),
+                responses: withErrors({204: noContent("The password is changed")}, [400, 404, 500]),
+            },
+        },
+        '/user/2fa': {
+            post: {
+                operationId: 'startTwoFactor',
+                summary: "Start enrolling in two-factor authentication",
+                security: SESSION,
+                responses: withErrors({201: json("The secret to add to an authenticator app", ref('TwoFactorEnrolment'))}, [401, 404, 409, 500]),
+            },
+            delete: {
+                operationId: 'disableTwoFactor',
+                summary: "Turn two-factor authentication off",
+                description: "Users send a current or recovery code; admins may name another account instead.",
+                security: SESSION,
+                parameters: [query('username', {type: 'string'}, "Another account, for admins")],
+                requestBody: body(ref('TwoFactorCode'), false),
+                responses: withErrors({200: profileResponse("The account")}, [400, 401, 403, 404, 409, 500]),
+            },
+        },
+        '/user/2fa/confirm': {
+            post: {
+                operationId: 'confirmTwoFactor',
+                summary: "Turn two-factor authentication on",
+                description: "The recovery codes are only ever shown in this response.",
+                security: SESSION,
+                requestBody: body(ref('TwoFactorCode')),
+                responses: withErrors({200: {...json("The account and its recovery codes", ref('TwoFactorConfirmation')), headers: etag}}, [400, 401, 404, 409, 500]),
+            },
+        },
+        '/users': {
+            get: {
+                operationId: 'listUsers',
+                summary: "List accounts",
+                description: "Admins only. ?q= matches any listed field, ?<field>= that field only.",
+                security: SESSION,
+                parameters: [
+                    query('q', {type: 'string'}, "Text to look for in any field"),
+                    query('sort', {type: 'string', enum: USER_LIST_FIELDS, default: 'username'}, "Field to sort by"),
+                    query('order', {type: 'string', enum: ['asc', 'desc'], default: 'asc'}, "Sort order"),
+                    query('page', {type: 'integer', minimum: 1, default: 1}, "Page number, from 1"),
+                    query('pageSize', {type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE}, "Accounts per page"),
+                    ...USER_LIST_FIELDS.map(field => query(field, {type: 'string'}, `Text to look for in ${field}`)),
+                ],
+                responses: withErrors({200: json("A page of accounts", ref('UserPage'))}, [400, 401, 403, 500]),
+            },
+        },
+        '/users/export': {
+            get: {
+                operationId: 'exportUsers',
+                summary: "Download every account as CSV or JSON",
+                description: "Admins only. Passwords and two-factor secrets are never included.",
+                security: SESSION,
+                parameters: [
+                    query('format', {type: 'string', enum: FORMATS, default: 'json'}, "File format"),
+                ],
+                responses: withErrors({
+                    200: {
+                        description: "The accounts, sorted by username, as an attachment",
+                        headers: {'Content-Disposition': {description: "attachment; filename=\"users.<format>\"", schema: {type: 'string'}}},
+                        content: {
+                            'text/csv': {schema: {type: 'string', description: `A header row, then ${EXPORT_FIELDS.join(', ')} per account`}},
+                            'application/json': {schema: {type: 'array', items: ref('ExportedUser')}},
+                        },
+                    },
+                }, [400, 401, 403, 500]),
+            },
+        },
+        '/users/import': {
+            post: {
+                operationId: 'importUsers',
+                summary: "Create or update accounts in bulk",
+                description: `Admins only. Takes up to ${MAX_IMPORT_ROWS} accounts in the format GET /users/export writes, `
+                    + "plus a password column that new accounts need. Nothing is written unless every row is valid; "
+                    + "with dryRun nothing is written at all and the report says what would have happened.",
+                security: SESSION,
+                requestBody: body(ref('ImportRequest')),
+                responses: withErrors({
+                    200: json("What happened to each row, or would have with dryRun", ref('ImportReport')),
+                    409: json("onConflict is fail and some usernames are taken; details name the rows as rows.<row>.username", ref('ErrorResponse')),
+                }, [400, 401, 403, 413, 500]),
+            },
+        },
+        '/audit': {
+            get: {
+                operationId: 'readAuditLog',
+                summary: "Read the audit log, newest first",
+                description: "Admins only.",
+                security: SESSION,
+                parameters: [
+                    query('action', {type: 'string', enum: ACTIONS}, "Only this kind of event"),
+                    query('actor', {type: 'string'}, "Only events caused by this account"),
+                    query('target', {type: 'string'}, "Only events affecting this account"),
+                    query('since', timestamp, "Only events at or after this time"),
+                    query('until', timestamp, "Only events at or before this time"),
+                    query('limit', {type: 'integer', minimum: 1, maximum: MAX_AUDIT_LIMIT, default: DEFAULT_AUDIT_LIMIT}, "Most events to return"),
+                ],
+                responses: withErrors({200: json("Matching events", ref('AuditPage'))}, [400, 401, 403, 500]),
+            },
+        },
+        '/session': {
+            post: {
+                operationId: 'createSession',
+                summary: "Log in",
+                description: "Accounts with two-factor authentication get a 202 and must finish at POST /session/second-factor.",
+                requestBody: body(ref('Credentials')),
+                responses: withErrors({
+                    200: json("Logged in", ref('Session')),
+                    202: json("The password is right; a second factor is needed", ref('SecondFactorChallenge')),
+                }, [400, 401, 429, 500]),
+            },
+            delete: {
+                operationId: 'deleteSession',
+                summary: "Log out",
+                security: SESSION,
+                responses: withErrors({204: noContent("The token no longer works")}, [401, 500]),
+            },
+        },
+        '/session/second-factor': {
+            post: {
+                operationId: 'verifySecondFactor',
+                summary: "Finish logging in with a code from the authenticator app or a recovery code",
+                requestBody: body(ref('SecondFactor')),
+                responses: withErrors({200: json("Logged in", ref('Session'))}, [400, 401, 429, 500]),
+            },
+        },
+        '/session/me': {
+            get: {
+                operationId: 'getCurrentSession',
+                summary: "Read the session's account",
+                security: SESSION,
+                responses: withErrors({200: {...json("The session and its account", ref('CurrentSession')), headers: etag}}, [401, 500]),
+            },
+        },
+        '/lockout': {
+            delete: {
+                operationId: 'clearLockout',
+                summary: "Lift a login lock early",
+                description: "Admins only. Give a username, an IP address or both.",
+                security: SESSION,
+                parameters: [
+                    query('username', {type: 'string'}, "Unlock this account"),
+                    query('ip', {type: 'string'}, "Unlock this client"),
+                ],
+                responses: withErrors({204: noContent("The lock is lifted")}, [400, 401, 403, 500]),
+            },
+        },
+    },
+    components: {
+        securitySchemes: {
+            bearerAuth: {type: 'http', scheme: 'bearer', description: "The token from POST /session"},
+        },
+        schemas: {
+            Problem: {
+                type: 'object',
+                required: ['field', 'message'],
+                additionalProperties: false,
+                properties: {
+                    field: {type: 'string'},
+                    message: {type: 'string'},
+                },
+            },
+            ErrorBody: {
+                type: 'object',
+                required: ['code', 'message'],
+                additionalProperties: false,
+                properties: {
+                    code: {type: 'string', description: "Stable identifier, e.g. ACCOUNT_EXISTS"},
+                    message: {type: 'string'},
+                    details: {type: 'array', items: ref('Problem')},
+                },
+            },
+            ErrorResponse: {
+                type: 'object',
+                required: ['error'],
+                additionalProperties: false,
+                properties: {
+                    error: ref('ErrorBody'),
+                },
+            },
+            Role: {type: 'string', enum: ROLES},
+            ThemeName: {type: 'string', enum: THEMES},
+            FavouriteNumber: {
+                description: "Kept as sent, so it may be a number or text such as \"seven\"",
+                oneOf: [{type: 'number'}, text],
+            },
+            User: {
+                type: 'object',
+                required: ['username', 'role', 'name', 'favouriteFruit', 'favouriteMovie', 'favouriteNumber', 'twoFactorEnabled', 'version'],
+                additionalProperties: false,
+                properties: {
+                    username: {type: 'string'},
+                    role: ref('Role'),
+                    name: {type: 'string'},
+                    favouriteFruit: {type: 'string'},
+                    favouriteMovie: {type: 'string'},
+                    favouriteNumber: {oneOf: [{type: 'number'}, {type: 'string'}]},
+                    twoFactorEnabled: {type: 'boolean'},
+                    theme: {...ref('ThemeName'), description: "Unset until the user picks one; the browser's colour scheme applies until then"},
+                    version: {type: 'integer', minimum: 1, description: "Bumped by every profile change and sent back as the ETag"},
+                },
+            },
+            NewAccount: {
+                type: 'object',
+                required: requiredFields({creating: true}),
+                additionalProperties: false,
+                properties: {
+                    username: {type: 'string', pattern: USERNAME_PATTERN.source},
+                    password: {type: 'string', minLength: 1},
+                    role: {...ref('Role'), description: "Admins only; defaults to user"},
+                    name: text,
+                    favouriteFruit: text,
+                    favouriteMovie: text,
+                    favouriteNumber: ref('FavouriteNumber'),
+                },
+            },
+            AccountUpdate: {
+                type: 'object',
+                required: requiredFields({creating: false}),
+                additionalProperties: false,
+                properties: {
+                    password: {type: 'string', minLength: 1, description: "Admins only; users go through PUT /user/password"},
+                    role: {...ref('Role'), description: "Admins only"},
+                    name: text,
+                    favouriteFruit: text,
+                    favouriteMovie: text,
+                    favouriteNumber: ref('FavouriteNumber'),
+                },
+            },
+            PasswordChange: {
+                type: 'object',
+                required: ['currentPassword', 'newPassword'],
+                additionalProperties: false,
+                properties: {
+                    currentPassword: {type: 'string', minLength: 1},
+                    newPassword: {type: 'string', minLength: 1},
+                },
+            },
+            ThemeChoice: {
+                type: 'object',
+                required: ['theme'],
+                additionalProperties: false,
+                properties: {
+                    theme: {type: 'string', enum: [...THEMES, null], nullable: true, description: "null clears the choice"},
+                },
+            },
+            PasswordPolicy: {
+                type: 'object',
+                required: ['minLength', 'requiredClasses', 'history'],
+                additionalProperties: false,
+                properties: {
+                    minLength: {type: 'integer', minimum: 0},
+                    requiredClasses: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['name', 'description'],
+                            additionalProperties: false,
+                            properties: {
+                                name: {type: 'string', enum: Object.keys(CHARACTER_CLASSES)},
+                                description: {type: 'string'},
+                            },
+                        },
+                    },
+                    history: {type: 'integer', minimum: 0, description: "How many previous passwords may not be reused"},
+                },
+            },
+            RecoveryStart: {
+                type: 'object',
+                required: ['username'],
+                additionalProperties: false,
+                properties: {
+                    username: {type: 'string', minLength: 1},
+                },
+            },
+            RecoveryChallenge: {
+                type: 'object',
+                required: ['challengeId', 'questions', 'expiresAt'],
+                additionalProperties: false,
+                properties: {
+                    challengeId: {type: 'string'},
+                    questions: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['field', 'question'],
+                            additionalProperties: false,
+                            properties: {
+                                field: {type: 'string', enum: Object.keys(QUESTIONS)},
+                                question: {type: 'string'},
+                            },
+                        },
+                    },
+                    expiresAt: timestamp,
+                },
+            },
+            RecoveryAnswers: {
+                type: 'object',
+                required: ['challengeId', 'answers'],
+                additionalProperties: false,
+                properties: {
+                    challengeId: {type: 'string'},
+                    answers: {type: 'object', additionalProperties: {type: 'string'}, description: "Answers keyed by the questions' fields"},
+                },
+            },
+            ResetToken: {
+                type: 'object',
+                required: ['resetToken', 'expiresAt'],
+                additionalProperties: false,
+                properties: {
+                    resetToken: {type: 'string'},
+                    expiresAt: timestamp,
+                },
+            },
+            PasswordReset: {
+                type: 'object',
+                required: ['resetToken', 'newPassword'],
+                additionalProperties: false,
+                properties: {
+                    resetToken: {type: 'string', minLength: 1},
+                    newPassword: {type: 'string', minLength: 1},
+                },
+            },
+            TwoFactorEnrolment: {
+                type: 'object',
+                required: ['secret', 'uri'],
+                additionalProperties: false,
+                properties: {
+                    secret: {type: 'string', description: "Base32, for typing into an authenticator app"},
+                    uri: {type: 'string', description: "otpauth:// URI, for a QR code"},
+                },
+            },
+            TwoFactorCode: {
+                type: 'object',
+                required: ['code'],
+                additionalProperties: false,
+                properties: {
+                    code: {type: 'string'},
+                },
+            },
+            TwoFactorConfirmation: {
+                type: 'object',
+                required: ['user', 'recoveryCodes'],
+                additionalProperties: false,
+                properties: {
+                    user: ref('User'),
+                    recoveryCodes: {type: 'array', items: {type: 'string'}},
+                },
+            },
+            UserPage: {
+                type: 'object',
+                required: ['items', 'total', 'page', 'pageSize'],
+                additionalProperties: false,
+                properties: {
+                    items: {type: 'array', items: ref('User')},
+                    total: {type: 'integer', minimum: 0},
+                    page: {type: 'integer', minimum: 1},
+                    pageSize: {type: 'integer', minimum: 1},
+                },
+            },
+            ExportedUser: {
+                type: 'object',
+                required: EXPORT_FIELDS,
+                additionalProperties: false,
+                properties: {
+                    username: {type: 'string'},
+                    name: {type: 'string'},
+                    role: ref('Role'),
+                    favouriteFruit: {type: 'string'},
+                    favouriteMovie: {type: 'string'},
+                    favouriteNumber: {oneOf: [{type: 'number'}, {type: 'string'}]},
+                },
+            },
+            ImportRequest: {
+                type: 'object',
+                required: ['format', 'content'],
+                additionalProperties: false,
+                properties: {
+                    format: {type: 'string', enum: FORMATS},
+                    content: {type: 'string', minLength: 1, description: "The file's text"},
+                    onConflict: {type: 'string', enum: CONFLICT_POLICIES, default: 'fail', description: "What to do with usernames that are already taken"},
+                    dryRun: {type: 'boolean', default: false, description: "Only report what would happen"},
+                },
+            },
+            ImportRow: {
+                type: 'object',
+                required: ['row', 'username', 'action', 'problems'],
+                additionalProperties: false,
+                properties: {
+                    row: {type: 'integer', minimum: 1, description: "Counted from 1, not counting a CSV header"},
+                    username: {type: 'string'},
+                    action: {type: 'string', enum: ['create', 'update', 'skip', 'conflict', 'invalid']},
+                    problems: {type: 'array', items: ref('Problem')},
+                },
+            },
+            ImportReport: {
+                type: 'object',
+                required: ['dryRun', 'onConflict', 'created', 'updated', 'skipped', 'conflicts', 'invalid', 'rows'],
+                additionalProperties: false,
+                properties: {
+                    dryRun: {type: 'boolean'},
+                    onConflict: {type: 'string', enum: CONFLICT_POLICIES},
+                    created: {type: 'integer', minimum: 0},
+                    updated: {type: 'integer', minimum: 0},
+                    skipped: {type: 'integer', minimum: 0},
+                    conflicts: {type: 'integer', minimum: 0},
+                    invalid: {type: 'integer', minimum: 0},
+                    rows: {type: 'array', items: ref('ImportRow')},
+                },
+            },
+            AuditEntry: {
+                type: 'object',
+                required: ['timestamp', 'action', 'actor', 'target', 'fields', 'ip'],
+                additionalProperties: false,
+                properties: {
+                    timestamp,
+                    action: {type: 'string', enum: ACTIONS},
+                    actor: {type: 'string', nullable: true, description: "null when nobody was logged in"},
+                    target: {type: 'string', nullable: true},
+                    fields: {type: 'array', items: {type: 'string'}, description: "Names of the fields that changed, never their values"},
+                    ip: {type: 'string'},
+                },
+            },
+            AuditPage: {
+                type: 'object',
+                required: ['items'],
+                additionalProperties: false,
+                properties: {
+                    items: {type: 'array', items: ref('AuditEntry')},
+                },
+            },
+            Credentials: {
+                type: 'object',
+                required: ['username', 'password'],
+                additionalProperties: false,
+                properties: {
+                    username: {type: 'string'},
+                    password: {type: 'string'},
+                },
+            },
+            SecondFactor: {
+                type: 'object',
+                required: ['challengeToken', 'code'],
+                additionalProperties: false,
+                properties: {
+                    challengeToken: {type: 'string'},
+                    code: {type: 'string'},
+                },
+            },
+            Session: {
+                type: 'object',
+                required: ['token', 'expiresAt', 'user'],
+                additionalProperties: false,
+                properties: {
+                    token: {type: 'string', description: "Send as Authorization: Bearer <token>"},
+                    expiresAt: timestamp,
+                    user: ref('User'),
+                },
+            },
+            SecondFactorChallenge: {
+                type: 'object',
+                required: ['secondFactorRequired', 'challengeToken', 'expiresAt'],
+                additionalProperties: false,
+                properties: {
+                    secondFactorRequired: {type: 'boolean', enum: [true]},
+                    challengeToken: {type: 'string'},
+                    expiresAt: timestamp,
+                },
+            },
+            CurrentSession: {
+                type: 'object',
+                required: ['expiresAt', 'user'],
+                additionalProperties: false,
+                properties: {
+                    expiresAt: timestamp,
+                    user: ref('User'),
+                },
+            },
+            Health: {
+                type: 'object',
+                required: ['status', 'checks', 'uptimeSeconds'],
+                additionalProperties: false,
+                properties: {
+                    status: {type: 'string', enum: ['ok', 'unavailable']},
+                    checks: {
+                        type: 'object',
+                        required: ['storage'],
+                        additionalProperties: false,
+                        properties: {
+                            storage: {type: 'string', enum: ['ok', 'failing']},
+                        },
+                    },
+                    uptimeSeconds: {type: 'integer', minimum: 0},
+                },
+            },
+        },
+    },
+};
+
+module.exports = {document};
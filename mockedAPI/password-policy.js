@@ -0,0 +1,34 @@
+const {verifyPassword} = require('./passwords');
+const {CHARACTER_CLASSES, DEFAULT_PASSWORD_POLICY, passwordRules} = require('../shared/account');
+
+// PASSWORD_MIN_LENGTH, PASSWORD_REQUIRED_CLASSES (comma separated: lower, upper, digit, symbol)
+// and PASSWORD_HISTORY (how many previous passwords may not be reused)
+const loadPolicy = (env = process.env) => ({
+    minLength: Number(env.PASSWORD_MIN_LENGTH) || DEFAULT_PASSWORD_POLICY.minLength,
+    requiredClasses: (env.PASSWORD_REQUIRED_CLASSES || DEFAULT_PASSWORD_POLICY.requiredClasses.join(','))
+        .split(',')
+        .map(name => name.trim())
+        .filter(name => CHARACTER_CLASSES[name]),
+    history: env.PASSWORD_HISTORY === undefined ? DEFAULT_PASSWORD_POLICY.history : Number(env.PASSWORD_HISTORY),
+});
+
+// Returns the policy rules the password breaks, as human readable messages.
+// previousHashes are the account's current and earlier password hashes, newest first.
+const checkPassword = (policy, password, previousHashes = []) => {
+    const problems = passwordRules(policy, password).filter(rule => !rule.met).map(rule => rule.message);
+
+    if(previousHashes.slice(0, policy.history).some(hash => verifyPassword(password, hash))) {
+        problems.push(`must not be one of your last ${policy.history} passwords`);
+    }
+
+    return problems;
+}
+
+// Hashes to remember after a change: the outgoing password goes to the front of the history
+const nextPasswordHistory = (policy, account) => {
+    return [account.password, ...(account.passwordHistory || [])]
+        .filter(Boolean)
+        .slice(0, Math.max(policy.history - 1, 0));
+}
+
+module.exports = {loadPolicy, checkPassword, nextPasswordHistory};
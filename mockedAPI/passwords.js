@@ -0,0 +1,64 @@
+const crypto = require('crypto');
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt>$<hash>, salt and hash base64 encoded
+const PREFIX = 'scrypt';
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+// How many hashes hashPasswords runs at once, below the 4 threads Node gives crypto by default so
+// logins still get one
+const HASH_CONCURRENCY = 2;
+
+const isHashed = (value) => {
+    return typeof value === 'string' && value.split('$').length === 6 && value.startsWith(`${PREFIX}$`);
+}
+
+const formatHash = (salt, hash) => [PREFIX, COST, BLOCK_SIZE, PARALLELISM, salt.toString('base64'), hash.toString('base64')].join('$');
+
+const hashPassword = (password) => {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    return formatHash(salt, crypto.scryptSync(password, salt, KEY_LENGTH, {N: COST, r: BLOCK_SIZE, p: PARALLELISM}));
+}
+
+const hashPasswordAsync = (password) => new Promise((resolve, reject) => {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    crypto.scrypt(password, salt, KEY_LENGTH, {N: COST, r: BLOCK_SIZE, p: PARALLELISM}, (err, hash) => {
+        if(err) reject(err);
+        else resolve(formatHash(salt, hash));
+    });
+});
+
+// Hashes many passwords off the event loop, for bulk imports; undefined entries stay undefined.
+// Hashing them one by one with hashPassword would stall every other request for the whole batch.
+const hashPasswords = (passwords) => {
+    const hashes = new Array(passwords.length);
+    let next = 0;
+    const worker = () => {
+        if(next >= passwords.length) return Promise.resolve();
+        const index = next++;
+        if(passwords[index] === undefined) return worker();
+        return hashPasswordAsync(passwords[index]).then(hash => {
+            hashes[index] = hash;
+            return worker();
+        });
+    }
+    return Promise.all(Array.from({length: HASH_CONCURRENCY}, worker)).then(() => hashes);
+}
+
+const verifyPassword = (password, stored) => {
+    if(typeof password !== 'string' || !isHashed(stored)) return false;
+
+    const [, cost, blockSize, parallelism, salt, hash] = stored.split('$');
+    const expected = Buffer.from(hash, 'base64');
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length, {
+        N: Number(cost),
+        r: Number(blockSize),
+        p: Number(parallelism),
+    });
+
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+module.exports = {isHashed, hashPassword, hashPasswords, verifyPassword};
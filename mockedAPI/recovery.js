@@ -0,0 +1,100 @@
+const crypto = require('crypto');
+
+// The stored favourites double as security questions for a forgotten password
+const QUESTIONS = {
+    favouriteFruit: 'What is your favourite fruit?',
+    favouriteMovie: 'What is your favourite movie?',
+    favouriteNumber: 'What is your favourite number?',
+};
+const QUESTIONS_ASKED = 2;
+
+// Answers match regardless of case and whitespace: " The  Matrix" answers "the matrix"
+const normalize = (answer) => String(answer == null ? '' : answer).replace(/\s+/g, '').toLowerCase();
+
+// Compares digests so the time taken does not depend on where the answers differ
+const sameAnswer = (given, expected) => {
+    const digest = (value) => crypto.createHash('sha256').update(normalize(value)).digest();
+    return crypto.timingSafeEqual(digest(given), digest(expected)) && normalize(expected) !== '';
+}
+
+// True only when every asked question is answered correctly. All answers are checked, so a
+// wrong first answer takes as long as a wrong last one. A missing account never matches.
+const answersMatch = (account, fields, answers) => {
+    const results = fields.map(field => sameAnswer((answers || {})[field], account ? account[field] : ''));
+    return results.every(Boolean);
+}
+
+const pickFields = () => Object.keys(QUESTIONS)
+    .map(field => ({field, order: crypto.randomInt(1000000)}))
+    .sort((a, b) => a.order - b.order)
+    .slice(0, QUESTIONS_ASKED)
+    .map(({field}) => field);
+
+// Challenges and reset tokens live in memory, like sessions and lockouts. A username keeps
+// the same challenge until it expires or is answered, so asking again cannot be used to
+// shop for easier questions. Unknown usernames get a challenge too and simply never pass.
+const createRecovery = ({challengeSeconds, resetSeconds, now = () => Date.now()}) => {
+    const challenges = new Map();
+    const challengesByUser = new Map();
+    const resetTokens = new Map();
+
+    const prune = () => {
+        challenges.forEach((challenge, id) => {
+            if(challenge.expiresAt > now()) return;
+            challenges.delete(id);
+            if(challengesByUser.get(challenge.username) === id) challengesByUser.delete(challenge.username);
+        });
+        resetTokens.forEach((reset, token) => {
+            if(reset.expiresAt <= now()) resetTokens.delete(token);
+        });
+    }
+
+    const startChallenge = (username) => {
+        prune();
+        const existing = challenges.get(challengesByUser.get(username));
+        if(existing) return existing;
+
+        const challenge = {
+            challengeId: crypto.randomBytes(16).toString('hex'),
+            username,
+            fields: pickFields(),
+            expiresAt: now() + challengeSeconds * 1000,
+        };
+        challenges.set(challenge.challengeId, challenge);
+        challengesByUser.set(username, challenge.challengeId);
+        return challenge;
+    }
+
+    // The pending challenge for the id, or undefined once it has expired or been answered
+    const findChallenge = (challengeId) => {
+        prune();
+        return challenges.get(challengeId);
+    }
+
+    // Answering a challenge correctly exchanges it for a single-use reset token
+    const issueResetToken = (challenge) => {
+        challenges.delete(challenge.challengeId);
+        challengesByUser.delete(challenge.username);
+
+        const resetToken = crypto.randomBytes(32).toString('hex');
+        const expiresAt = now() + resetSeconds * 1000;
+        resetTokens.set(resetToken, {username: challenge.username, expiresAt});
+        return {resetToken, expiresAt: new Date(expiresAt).toISOString()};
+    }
+
+    // The username the token was issued for, or undefined once it has expired or been used
+    const findResetToken = (resetToken) => {
+        prune();
+        const reset = resetTokens.get(resetToken);
+        return reset ? reset.username : undefined;
+    }
+
+    // Called once the new password is saved; a rejected password leaves the token usable
+    const consumeResetToken = (resetToken) => {
+        resetTokens.delete(resetToken);
+    }
+
+    return {startChallenge, findChallenge, issueResetToken, findResetToken, consumeResetToken};
+}
+
+module.exports = {QUESTIONS, answersMatch, createRecovery};
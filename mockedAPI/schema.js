@@ -0,0 +1,91 @@
+// Checks values against the subset of JSON Schema that openapi.js uses: $ref, type, nullable,
+// enum, oneOf, properties, required, additionalProperties, items, min/maxLength, pattern,
+// minimum/maximum and the date-time format. Problems come back as [{field, message}], the same
+// shape as the API's validation errors, with field a dotted path such as "user.favouriteNumber".
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const resolve = (document, schema) => {
+    if(!schema.$ref) return schema;
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    const target = document.components.schemas[name];
+    if(!target) throw new Error(`Unknown schema ${schema.$ref}`);
+    return resolve(document, target);
+}
+
+const typeOf = (value) => {
+    if(value === null) return 'null';
+    if(Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+const hasType = (value, type) => {
+    if(type === 'integer') return Number.isInteger(value);
+    if(type === 'number') return typeof value === 'number' && isFinite(value);
+    return typeOf(value) === type;
+}
+
+const describe = (values) => values.map(value => JSON.stringify(value)).join(', ');
+
+const check = (document, schema, value, field, problems) => {
+    schema = resolve(document, schema);
+    const name = field || 'body';
+    const problem = (message) => problems.push({field: name, message: `${name} ${message}`});
+
+    if(value === null && (schema.nullable || (schema.enum && schema.enum.includes(null)))) return;
+
+    if(schema.oneOf) {
+        const matches = schema.oneOf.filter(option => !validate(document, option, value).length);
+        if(matches.length !== 1) problem(`must match exactly one of ${schema.oneOf.map(option => resolve(document, option).type).join(', ')}`);
+        return;
+    }
+
+    if(schema.type && !hasType(value, schema.type)) return problem(`must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+
+    if(schema.enum && !schema.enum.includes(value)) return problem(`must be one of ${describe(schema.enum)}`);
+
+    if(typeof value === 'string') {
+        if(schema.minLength !== undefined && value.length < schema.minLength) {
+            problem(schema.minLength === 1 ? 'is required' : `must be at least ${schema.minLength} characters`);
+        }
+        if(schema.maxLength !== undefined && value.length > schema.maxLength) problem(`must be at most ${schema.maxLength} characters`);
+        if(schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) problem(`must match ${schema.pattern}`);
+        if(schema.format === 'date-time' && (!ISO_TIMESTAMP.test(value) || isNaN(new Date(value).getTime()))) problem('must be an ISO 8601 timestamp');
+    }
+
+    if(typeof value === 'number') {
+        if(schema.minimum !== undefined && value < schema.minimum) problem(`must be at least ${schema.minimum}`);
+        if(schema.maximum !== undefined && value > schema.maximum) problem(`must be at most ${schema.maximum}`);
+    }
+
+    if(Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => check(document, schema.items, item, `${name}.${index}`, problems));
+    }
+
+    if(typeOf(value) === 'object') {
+        const prefix = field ? `${field}.` : '';
+        const properties = schema.properties || {};
+        (schema.required || []).forEach(key => {
+            if(value[key] === undefined) problems.push({field: `${prefix}${key}`, message: `${prefix}${key} is required`});
+        });
+        Object.keys(value).forEach(key => {
+            if(value[key] === undefined) return;
+            if(properties[key]) return check(document, properties[key], value[key], `${prefix}${key}`, problems);
+            if(schema.additionalProperties === false) {
+                problems.push({field: `${prefix}${key}`, message: `${prefix}${key} is not allowed`});
+            }
+            else if(typeof schema.additionalProperties === 'object') {
+                check(document, schema.additionalProperties, value[key], `${prefix}${key}`, problems);
+            }
+        });
+    }
+}
+
+// Every way value breaks schema; an empty list means it matches. $refs are looked up in document.
+const validate = (document, schema, value, field = '') => {
+    const problems = [];
+    check(document, schema, value, field, problems);
+    return problems;
+}
+
+module.exports = {validate};
@@ -0,0 +1,832 @@
+const crypto = require('crypto');
+const express = require('express');
+const http = require('http');
+const {hashPassword, hashPasswords, verifyPassword} = require('./passwords');
+const {createSessions} = require('./sessions');
+const {ApiError, badRequest, notAuthenticated, forbidden, accountNotFound, accountExists, notFoundHandler, errorHandler} = require('./errors');
+const {USER_LIST_FIELDS, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, validateAccount, validateTheme, validateImport} = require('./validation');
+const {createStorage} = require('./storage');
+const {ACTIONS, DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT, createAuditLog} = require('./audit');
+const {createLockout} = require('./lockout');
+const {loadPolicy, checkPassword, nextPasswordHistory} = require('./password-policy');
+const {QUESTIONS, answersMatch, createRecovery} = require('./recovery');
+const {generateSecret, verifyTotp, provisioningUri} = require('./totp');
+const {hashRecoveryCode, generateRecoveryCodes, useRecoveryCode, createLoginChallenges} = require('./two-factor');
+const {document: openApiDocument} = require('./openapi');
+const {createContract} = require('./contract');
+const {renderDocs} = require('./docs');
+const {CHARACTER_CLASSES, pickProfile} = require('../shared/account');
+const {FORMATS, EXPORT_FIELDS, toCsv, parseImport, planImport, summarize, rowProblems} = require('./import-export');
+const {createLogger} = require('./logger');
+const {createMetrics} = require('./metrics');
+
+// Express 4 does not catch rejected promises; hand them to the error handler instead
+const asyncRoute = (handler) => (req, res, next) => {
+    Promise.resolve(handler(req, res, next)).catch(next);
+}
+
+const hasAccount = (data, username) => Object.prototype.hasOwnProperty.call(data, username);
+
+const isTwoFactorEnabled = (account) => !!(account.twoFactor && account.twoFactor.enabled);
+
+// Accounts stored before every profile field was required read back with blanks for the missing ones
+const PROFILE_DEFAULTS = {role: 'user', name: '', favouriteFruit: '', favouriteMovie: '', favouriteNumber: ''};
+
+const toProfile = (username, account) => {
+    const {password: _, passwordHistory: __, twoFactor: ___, ...profile} = account;
+    return {username, ...PROFILE_DEFAULTS, ...profile, twoFactorEnabled: isTwoFactorEnabled(account), version: account.version || 1};
+}
+
+// Every write bumps the account's version; it is sent back as the ETag
+const etagFor = (account) => `"${account.version || 1}"`;
+
+// Honours If-Match on writes: a stale version means someone else changed the account first
+const checkIfMatch = (req, account) => {
+    const ifMatch = req.get('If-Match');
+    if(!ifMatch || ifMatch.trim() === '*') return;
+
+    const current = etagFor(account);
+    const matches = ifMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === current);
+    if(!matches) {
+        throw new ApiError(412, 'PRECONDITION_FAILED', "Account was changed by another request", [{field: 'version', message: `current version is ${current}`}]);
+    }
+}
+
+// Checks a TOTP or recovery code against the account's second factor. Returns the account's
+// twoFactor state with the code used up, so it cannot be replayed, or null when the code is wrong.
+const useSecondFactor = (twoFactor, code, now) => {
+    const counter = verifyTotp(twoFactor.secret, code, {now, afterCounter: twoFactor.lastCounter});
+    if(counter !== null) return {...twoFactor, lastCounter: counter};
+
+    const recoveryCodes = useRecoveryCode(twoFactor.recoveryCodes, code);
+    if(recoveryCodes) return {...twoFactor, recoveryCodes};
+
+    return null;
+}
+
+const requireAdmin = (req, res, next) => {
+    if(req.session.role !== 'admin') throw forbidden();
+    next();
+}
+
+// Users may only act on their own record (?username=), admins on any record
+const requireSelfOrAdmin = (req, res, next) => {
+    if(req.session.role !== 'admin' && req.query.username !== req.session.username) throw forbidden();
+    next();
+}
+
+const isAdmin = (req) => !!req.session && req.session.role === 'admin';
+
+const actorOf = (req) => req.session ? req.session.username : null;
+
+// Names of the stored fields that differ between two versions of an account
+const changedFields = (before, after) => Object.keys({...before, ...after})
+    .filter(field => field !== 'version' && field !== 'passwordHistory' && JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+
+// Callers may pass their own X-Request-Id to follow a request through the logs, as long as it is short and plain
+const REQUEST_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Swaps every stored account for the given ones, in place so storage.update persists the change
+const replaceAccounts = (data, accounts) => {
+    Object.keys(data).forEach(username => delete data[username]);
+    Object.assign(data, JSON.parse(JSON.stringify(accounts)));
+}
+
+// Builds the mock API around its own storage, audit log, sessions and lockouts, so several can
+// run side by side in one process (the API tests start one per worker). Resolves once it is listening:
+//   port         0 (the default) picks a free one; the bound port and url come back with the server
+//   storagePath  the accounts file; storageBackend is json (default), memory or nedb
+//   auditLogPath where account and login events are appended
+//   seed         {username: account} to start from instead of what is already stored; reset() restores it
+//   env          the settings documented below, read from process.env unless given
+//   logger       where logs go, see logger.js; by default JSON lines on stdout at LOG_LEVEL (info unless set)
+//   now          the clock for sessions, lockouts, recovery, TOTP codes and audit timestamps, in milliseconds
+//                since the epoch; tests pin it so codes and expiries do not depend on the wall clock
+const createServer = ({port = 0, storageBackend, storagePath, auditLogPath = './storage/audit.log', seed, env = process.env,
+    logger = createLogger({level: env.LOG_LEVEL}), now = () => Date.now()} = {}) => {
+    const storage = createStorage({backend: storageBackend, path: storagePath});
+    const audit = createAuditLog({path: auditLogPath, now});
+
+    // SESSION_SECRET signs session tokens, which last SESSION_TTL_SECONDS
+    const {createSession, revokeSession, revokeUserSessions, requireSession, optionalSession} = createSessions({
+        secret: env.SESSION_SECRET || undefined,
+        ttlSeconds: Number(env.SESSION_TTL_SECONDS) || undefined,
+        now,
+    });
+
+    // LOGIN_MAX_FAILURES failed logins in a row lock an account for LOGIN_LOCKOUT_SECONDS;
+    // a client IP is locked the same way after LOGIN_MAX_FAILURES_PER_IP
+    const lockout = createLockout({
+        limits: {
+            user: Number(env.LOGIN_MAX_FAILURES) || 5,
+            ip: Number(env.LOGIN_MAX_FAILURES_PER_IP) || 20,
+        },
+        cooldownSeconds: Number(env.LOGIN_LOCKOUT_SECONDS) || 300,
+        now,
+    });
+
+    // Wrong security answers are limited separately from logins: RECOVERY_MAX_FAILURES per
+    // account and RECOVERY_MAX_FAILURES_PER_IP per client, locked for RECOVERY_LOCKOUT_SECONDS
+    const recoveryLockout = createLockout({
+        limits: {
+            user: Number(env.RECOVERY_MAX_FAILURES) || 3,
+            ip: Number(env.RECOVERY_MAX_FAILURES_PER_IP) || 10,
+        },
+        cooldownSeconds: Number(env.RECOVERY_LOCKOUT_SECONDS) || 900,
+        now,
+    });
+
+    // A challenge must be answered within RECOVERY_CHALLENGE_SECONDS, and the reset token it
+    // yields used within PASSWORD_RESET_TTL_SECONDS
+    const recovery = createRecovery({
+        challengeSeconds: Number(env.RECOVERY_CHALLENGE_SECONDS) || 300,
+        resetSeconds: Number(env.PASSWORD_RESET_TTL_SECONDS) || 600,
+        now,
+    });
+
+    // With two-factor authentication on, a correct password must be followed by a code within
+    // SECOND_FACTOR_TTL_SECONDS. TOTP_ISSUER is the name authenticator apps show for the account.
+    const loginChallenges = createLoginChallenges({ttlSeconds: Number(env.SECOND_FACTOR_TTL_SECONDS) || 300, now});
+    const TOTP_ISSUER = env.TOTP_ISSUER || 'qa.code-quiz.dev';
+
+    const passwordPolicy = loadPolicy(env);
+
+    const metrics = createMetrics();
+    const startedAt = Date.now();
+
+    const app = express();
+
+    // Every request gets an id, sent back as X-Request-Id and attached to each log line about it through
+    // req.log. One line is logged as each response finishes, and the same numbers feed GET /metrics.
+    // route is the pattern that matched, or "unmatched" when the request never reached one.
+    app.use((req, res, next) => {
+        const started = process.hrtime.bigint();
+        const requested = req.get('X-Request-Id');
+        req.id = requested && REQUEST_ID.test(requested) ? requested : crypto.randomUUID();
+        req.log = logger.child({requestId: req.id});
+        res.set('X-Request-Id', req.id);
+
+        res.on('finish', () => {
+            const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+            const route = req.route ? req.route.path : 'unmatched';
+            const status = res.statusCode;
+            metrics.observe({method: req.method, route, status, seconds});
+            req.log[status >= 500 ? 'error' : 'info']("request", {
+                method: req.method, path: req.path, route, status, durationMs: Math.round(seconds * 10000) / 10,
+            });
+        });
+        next();
+    });
+
+    // Large enough for an import of MAX_IMPORT_ROWS accounts
+    app.use(express.json({limit: '1mb'}));
+    // ETags are the account versions set below, not hashes of the response body
+    app.set('etag', false);
+    // With TRUST_PROXY=true, req.ip comes from X-Forwarded-For when the request arrives through a local
+    // proxy such as the webpack dev server, so per-client lockouts tell browsers apart. It is off by
+    // default: a client talking to the API directly could otherwise pick a new address for every attempt.
+    if(env.TRUST_PROXY === 'true') app.set('trust proxy', 'loopback');
+
+    // With OPENAPI_STRICT=true every request and response is checked against openapi.js. Requests that
+    // break the contract get a 400; responses that break it become a 500 CONTRACT_VIOLATION.
+    if(env.OPENAPI_STRICT === 'true') {
+        const contract = createContract(openApiDocument);
+        app.use(contract.checkResponse);
+        app.use(contract.checkRequest);
+    }
+
+    const enforcePasswordPolicy = (field, password, previousHashes) => {
+        const problems = checkPassword(passwordPolicy, password, previousHashes);
+        if(problems.length) {
+            throw badRequest("Password does not meet the password policy", problems.map(problem => ({field, message: `${field} ${problem}`})));
+        }
+    }
+
+    // Looks up the role of the session's account. Runs after requireSession or optionalSession.
+    const withRole = asyncRoute(async (req, res, next) => {
+        if(!req.session) return next();
+
+        const account = await storage.get(req.session.username);
+        if(!account) throw notAuthenticated();
+
+        req.session.role = account.role || 'user';
+        next();
+    })
+
+    app.get('/', (req, res) => {
+        res.send("Backend API");
+    })
+
+    app.get('/openapi.json', (req, res) => {
+        res.json(openApiDocument);
+    })
+
+    app.get('/docs', (req, res) => {
+        res.type('html').send(renderDocs(openApiDocument));
+    })
+
+    // For load balancers and test harnesses: 200 while the storage answers, 503 once it does not
+    app.get('/health', asyncRoute(async (req, res) => {
+        const storageUp = await storage.read().then(() => true, err => {
+            req.log.error("Storage health check failed", {error: err});
+            return false;
+        });
+        res.status(storageUp ? 200 : 503).json({
+            status: storageUp ? 'ok' : 'unavailable',
+            checks: {storage: storageUp ? 'ok' : 'failing'},
+            uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+        });
+    }))
+
+    app.get('/metrics', (req, res) => {
+        res.type('text/plain; version=0.0.4').send(metrics.render());
+    })
+
+    app.get('/user', requireSession, withRole, requireSelfOrAdmin, asyncRoute(async (req, res) => {
+        const username = req.query.username;
+
+        const account = await storage.get(username);
+        if(!account) throw accountNotFound();
+
+        res.set('ETag', etagFor(account)).json(toProfile(username, account));
+    }))
+
+    app.post('/user', optionalSession, withRole, asyncRoute(async (req, res) => {
+        validateAccount(req.body, {creating: true});
+
+        const {username, password, role = 'user'} = req.body;
+        const profile = pickProfile(req.body);
+
+        // Only admins may hand out roles; self sign-up always creates a plain user
+        if(role !== 'user' && !isAdmin(req)) throw forbidden();
+        enforcePasswordPolicy('password', password);
+
+        const user = {
+            ...profile,
+            password: hashPassword(password),
+            role,
+            version: 1,
+        }
+
+        await storage.update(data => {
+            if(hasAccount(data, username)) throw accountExists();
+            data[username] = user;
+        });
+        await audit.record({action: 'account.create', actor: actorOf(req), target: username, fields: changedFields({}, user), ip: req.ip});
+
+        res.status(201).set('ETag', etagFor(user)).json(toProfile(username, user));
+    }))
+
+
+    app.delete('/user', requireSession, withRole, requireSelfOrAdmin, asyncRoute(async (req, res) => {
+        const username = req.query.username;
+
+        await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+            checkIfMatch(req, data[username]);
+            delete data[username];
+        });
+        revokeUserSessions(username);
+        await audit.record({action: 'account.delete', actor: actorOf(req), target: username, ip: req.ip});
+
+        res.status(204).end();
+    }))
+
+    app.put('/user', requireSession, withRole, requireSelfOrAdmin, asyncRoute(async (req, res) => {
+        const username = req.query.username;
+        validateAccount(req.body, {creating: false});
+
+        const {password, role} = req.body;
+        const profile = pickProfile(req.body);
+
+        // Users change their own password through PUT /user/password, which asks for the current one;
+        // only admins may reset a password here
+        if(password !== undefined && !isAdmin(req)) {
+            throw badRequest("Invalid account details", [{field: 'password', message: 'password must be changed through PUT /user/password'}]);
+        }
+
+        // Hash outside the update so the slow part does not hold up the write queue
+        const passwordHash = password === undefined ? undefined : hashPassword(password);
+
+        const {user, fields} = await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            checkIfMatch(req, current);
+            const currentRole = current.role || 'user';
+            if(role !== undefined && role !== currentRole && !isAdmin(req)) throw forbidden();
+            if(password !== undefined) enforcePasswordPolicy('password', password, [current.password, ...(current.passwordHistory || [])]);
+
+            data[username] = {
+                ...current,
+                ...profile,
+                // Profile edits leave the password out; keep the stored hash in that case
+                password: passwordHash === undefined ? current.password : passwordHash,
+                passwordHistory: passwordHash === undefined ? current.passwordHistory : nextPasswordHistory(passwordPolicy, current),
+                role: role === undefined ? currentRole : role,
+                version: (current.version || 1) + 1,
+            }
+            return {user: data[username], fields: changedFields(current, data[username])};
+        });
+        // An admin setting a new password logs the account out everywhere else
+        if(passwordHash !== undefined) revokeUserSessions(username, {except: req.session.sid});
+        await audit.record({action: 'account.update', actor: actorOf(req), target: username, fields, ip: req.ip});
+
+        res.set('ETag', etagFor(user)).json(toProfile(username, user));
+    }))
+
+    app.put('/user/password', requireSession, withRole, asyncRoute(async (req, res) => {
+        const {username} = req.session;
+        const {currentPassword, newPassword} = req.body;
+
+        const problems = ['currentPassword', 'newPassword']
+            .filter(field => typeof req.body[field] !== 'string' || !req.body[field])
+            .map(field => ({field, message: `${field} is required`}));
+        if(problems.length) throw badRequest("Invalid password change", problems);
+
+        // Guessing the current password here counts towards the same lockout as logging in
+        const lockoutKeys = [`user:${username}`];
+        const retryAfter = lockout.retryAfter(lockoutKeys);
+        if(retryAfter) {
+            res.set('Retry-After', String(retryAfter));
+            throw new ApiError(429, 'LOGIN_LOCKED', `Too many failed attempts, try again in ${retryAfter} seconds`);
+        }
+
+        // The account may have been deleted since the session was checked
+        const account = await storage.get(username);
+        if(!account) throw accountNotFound();
+        if(!verifyPassword(currentPassword, account.password)) {
+            lockout.fail(lockoutKeys);
+            throw badRequest("Invalid password change", [{field: 'currentPassword', message: 'currentPassword is incorrect'}]);
+        }
+        lockout.succeed(lockoutKeys);
+
+        const passwordHash = hashPassword(newPassword);
+
+        const user = await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            checkIfMatch(req, current);
+            enforcePasswordPolicy('newPassword', newPassword, [current.password, ...(current.passwordHistory || [])]);
+
+            data[username] = {
+                ...current,
+                password: passwordHash,
+                passwordHistory: nextPasswordHistory(passwordPolicy, current),
+                version: (current.version || 1) + 1,
+            }
+            return data[username];
+        });
+        // Other devices must log in again with the new password; this one stays logged in
+        revokeUserSessions(username, {except: req.session.sid});
+        await audit.record({action: 'password.change', actor: username, target: username, fields: ['password'], ip: req.ip});
+
+        res.set('ETag', etagFor(user)).json(toProfile(username, user));
+    }))
+
+    // Saves the session's own display theme, so it follows the user to other devices. The theme is
+    // not part of the profile, so the version stays the same and open edit forms are not made stale.
+    app.put('/user/theme', requireSession, asyncRoute(async (req, res) => {
+        const {username} = req.session;
+        validateTheme(req.body);
+        const {theme} = req.body;
+
+        const user = await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const {theme: _, ...current} = data[username];
+            data[username] = theme === null ? current : {...current, theme};
+            return data[username];
+        });
+        await audit.record({action: 'account.update', actor: username, target: username, fields: ['theme'], ip: req.ip});
+
+        res.set('ETag', etagFor(user)).json(toProfile(username, user));
+    }))
+
+    app.get('/password-policy', (req, res) => {
+        res.json({
+            minLength: passwordPolicy.minLength,
+            requiredClasses: passwordPolicy.requiredClasses.map(name => ({name, description: CHARACTER_CLASSES[name].description})),
+            history: passwordPolicy.history,
+        });
+    })
+
+    // Starts a forgotten-password recovery. The response looks the same whether or not the
+    // account exists, so it cannot be used to find out which usernames are taken.
+    app.post('/password-reset/challenge', (req, res) => {
+        const {username} = req.body;
+        if(typeof username !== 'string' || !username) {
+            throw badRequest("Invalid password recovery", [{field: 'username', message: 'username is required'}]);
+        }
+
+        const {challengeId, fields, expiresAt} = recovery.startChallenge(username);
+        res.json({
+            challengeId,
+            questions: fields.map(field => ({field, question: QUESTIONS[field]})),
+            expiresAt: new Date(expiresAt).toISOString(),
+        });
+    })
+
+    // Exchanges correct answers for a reset token. Wrong answers get one generic error that does
+    // not say which answer was wrong, and count towards the recovery lockout.
+    app.post('/password-reset/verify', asyncRoute(async (req, res) => {
+        const {challengeId, answers} = req.body;
+
+        const challenge = typeof challengeId === 'string' ? recovery.findChallenge(challengeId) : undefined;
+        if(!challenge) {
+            throw badRequest("Invalid password recovery", [{field: 'challengeId', message: 'challengeId is invalid or has expired'}]);
+        }
+
+        const lockoutKeys = [`user:${challenge.username}`, `ip:${req.ip}`];
+        const retryAfter = recoveryLockout.retryAfter(lockoutKeys);
+        if(retryAfter) {
+            res.set('Retry-After', String(retryAfter));
+            throw new ApiError(429, 'RECOVERY_LOCKED', `Too many failed attempts, try again in ${retryAfter} seconds`);
+        }
+
+        const account = await storage.get(challenge.username);
+        if(!answersMatch(account, challenge.fields, answers)) {
+            recoveryLockout.fail(lockoutKeys);
+            await audit.record({action: 'recovery.failure', actor: null, target: challenge.username, ip: req.ip});
+            throw new ApiError(401, 'RECOVERY_FAILED', "Those answers do not match our records");
+        }
+        recoveryLockout.succeed(lockoutKeys);
+
+        res.json(recovery.issueResetToken(challenge));
+    }))
+
+    app.post('/password-reset', asyncRoute(async (req, res) => {
+        const {resetToken, newPassword} = req.body;
+
+        const problems = ['resetToken', 'newPassword']
+            .filter(field => typeof req.body[field] !== 'string' || !req.body[field])
+            .map(field => ({field, message: `${field} is required`}));
+        if(problems.length) throw badRequest("Invalid password reset", problems);
+
+        const invalidToken = () => badRequest("Invalid password reset", [{field: 'resetToken', message: 'resetToken is invalid or has expired'}]);
+        const username = recovery.findResetToken(resetToken);
+        if(!username) throw invalidToken();
+
+        const passwordHash = hashPassword(newPassword);
+
+        await storage.update(data => {
+            // Checked again inside the write so two requests cannot both use the same token
+            if(recovery.findResetToken(resetToken) !== username) throw invalidToken();
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            enforcePasswordPolicy('newPassword', newPassword, [current.password, ...(current.passwordHistory || [])]);
+
+            data[username] = {
+                ...current,
+                password: passwordHash,
+                passwordHistory: nextPasswordHistory(passwordPolicy, current),
+                version: (current.version || 1) + 1,
+            }
+            recovery.consumeResetToken(resetToken);
+        });
+        // Whoever knew the old password is logged out, and proving who you are also lifts a login lock,
+        // so the new password can be used straight away
+        revokeUserSessions(username);
+        lockout.clear([`user:${username}`]);
+        await audit.record({action: 'password.reset', actor: username, target: username, fields: ['password'], ip: req.ip});
+
+        res.status(204).end();
+    }))
+
+    // Starts enrolling the session's account in two-factor authentication. The new secret only
+    // takes effect once a code generated from it is confirmed.
+    app.post('/user/2fa', requireSession, asyncRoute(async (req, res) => {
+        const {username} = req.session;
+        const secret = generateSecret();
+
+        await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            if(isTwoFactorEnabled(current)) throw new ApiError(409, 'TWO_FACTOR_ENABLED', "Two-factor authentication is already on");
+            data[username] = {...current, twoFactor: {enabled: false, secret}};
+        });
+
+        res.status(201).json({secret, uri: provisioningUri({secret, account: username, issuer: TOTP_ISSUER})});
+    }))
+
+    // Turns two-factor authentication on. The recovery codes are only ever shown in this response.
+    app.post('/user/2fa/confirm', requireSession, asyncRoute(async (req, res) => {
+        const {username} = req.session;
+        const {code} = req.body;
+        const recoveryCodes = generateRecoveryCodes();
+
+        const user = await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            if(isTwoFactorEnabled(current)) throw new ApiError(409, 'TWO_FACTOR_ENABLED', "Two-factor authentication is already on");
+            if(!current.twoFactor) {
+                throw badRequest("Invalid two-factor enrolment", [{field: 'code', message: 'start enrolment with POST /user/2fa first'}]);
+            }
+
+            const counter = verifyTotp(current.twoFactor.secret, code, {now: now()});
+            if(counter === null) throw badRequest("Invalid two-factor enrolment", [{field: 'code', message: 'code is incorrect'}]);
+
+            data[username] = {
+                ...current,
+                twoFactor: {
+                    enabled: true,
+                    secret: current.twoFactor.secret,
+                    lastCounter: counter,
+                    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+                },
+                version: (current.version || 1) + 1,
+            }
+            return data[username];
+        });
+        await audit.record({action: '2fa.enable', actor: username, target: username, fields: ['twoFactor'], ip: req.ip});
+
+        res.set('ETag', etagFor(user)).json({user: toProfile(username, user), recoveryCodes});
+    }))
+
+    // Turns two-factor authentication off. Users prove it is them with a current or recovery code;
+    // admins may switch it off for another account (?username=) that has lost its device.
+    app.delete('/user/2fa', requireSession, withRole, asyncRoute(async (req, res) => {
+        const username = req.query.username || req.session.username;
+        const self = username === req.session.username;
+        if(!self && !isAdmin(req)) throw forbidden();
+
+        const user = await storage.update(data => {
+            if(!hasAccount(data, username)) throw accountNotFound();
+
+            const current = data[username];
+            if(!isTwoFactorEnabled(current)) throw new ApiError(409, 'TWO_FACTOR_DISABLED', "Two-factor authentication is not on");
+            if(self && !useSecondFactor(current.twoFactor, (req.body || {}).code, now())) {
+                throw badRequest("Invalid two-factor code", [{field: 'code', message: 'code is incorrect'}]);
+            }
+
+            const {twoFactor: _, ...account} = current;
+            data[username] = {...account, version: (current.version || 1) + 1};
+            return data[username];
+        });
+        await audit.record({action: '2fa.disable', actor: actorOf(req), target: username, fields: ['twoFactor'], ip: req.ip});
+
+        res.set('ETag', etagFor(user)).json(toProfile(username, user));
+    }))
+
+    app.get('/users', requireSession, withRole, requireAdmin, asyncRoute(async (req, res) => {
+        const {q, sort = 'username', order = 'asc'} = req.query;
+        const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+        const pageSize = Math.min(Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+        if(!USER_LIST_FIELDS.includes(sort)) {
+            throw badRequest("Invalid query", [{field: 'sort', message: `sort must be one of ${USER_LIST_FIELDS.join(', ')}`}]);
+        }
+        if(order !== 'asc' && order !== 'desc') {
+            throw badRequest("Invalid query", [{field: 'order', message: 'order must be asc or desc'}]);
+        }
+
+        const data = await storage.read();
+
+        const contains = (value, term) => String(value == null ? '' : value).toLowerCase().includes(String(term).toLowerCase());
+
+        const users = Object.keys(data)
+            .map(username => toProfile(username, data[username]))
+            // ?q= matches any listed field, ?<field>= matches that field only
+            .filter(user => !q || USER_LIST_FIELDS.some(field => contains(user[field], q)))
+            .filter(user => USER_LIST_FIELDS.every(field => req.query[field] === undefined || contains(user[field], req.query[field])))
+            .sort((a, b) => {
+                const compared = String(a[sort] == null ? '' : a[sort]).localeCompare(String(b[sort] == null ? '' : b[sort]), undefined, {numeric: true, sensitivity: 'base'});
+                return order === 'desc' ? -compared : compared;
+            });
+
+        res.json({
+            items: users.slice((page - 1) * pageSize, page * pageSize),
+            total: users.length,
+            page,
+            pageSize,
+        });
+    }))
+
+    app.get('/users/export', requireSession, withRole, requireAdmin, asyncRoute(async (req, res) => {
+        const {format = 'json'} = req.query;
+        if(!FORMATS.includes(format)) {
+            throw badRequest("Invalid query", [{field: 'format', message: `format must be one of ${FORMATS.join(', ')}`}]);
+        }
+
+        const data = await storage.read();
+        // Built from the public profile, so no password, password history or two-factor secret can leak out
+        const records = Object.keys(data).sort().map(username => {
+            const profile = toProfile(username, data[username]);
+            return EXPORT_FIELDS.reduce((record, field) => ({...record, [field]: profile[field]}), {});
+        });
+
+        res.attachment(`users.${format}`);
+        if(format === 'csv') res.type('text/csv').send(toCsv(EXPORT_FIELDS, records));
+        else res.json(records);
+    }))
+
+    // Creates or updates accounts in bulk from a CSV or JSON file. Nothing is written when any row is
+    // invalid, or when a username is taken and onConflict is fail; with dryRun nothing is written at all
+    // and the report says what would have happened.
+    app.post('/users/import', requireSession, withRole, requireAdmin, asyncRoute(async (req, res) => {
+        const {format, content, onConflict, dryRun} = validateImport(req.body);
+        const records = parseImport(format, content);
+
+        const existing = await storage.read();
+        const rows = planImport(records, {
+            onConflict,
+            exists: (username) => hasAccount(existing, username),
+            passwordProblems: (password) => checkPassword(passwordPolicy, password),
+        });
+        const report = {dryRun, onConflict, ...summarize(rows), rows};
+        if(dryRun) return res.json(report);
+
+        if(report.invalid) throw badRequest("Import has invalid rows", rowProblems(rows));
+        if(report.conflicts) throw new ApiError(409, 'IMPORT_CONFLICT', "Import has usernames that are already taken", rowProblems(rows));
+
+        // Hash outside the update so the slow part does not hold up the write queue
+        const planned = rows.filter(({action}) => action === 'create' || action === 'update')
+            .map(({row, username, action}) => ({username, action, record: records[row - 1]}));
+        const passwordHashes = await hashPasswords(planned.map(({record}) => record.password));
+        const writes = planned.map((write, index) => ({...write, passwordHash: passwordHashes[index]}));
+
+        const changes = await storage.update(data => writes.map(({username, action, record, passwordHash}) => {
+            // Someone else created or deleted the account since the plan was made
+            if(hasAccount(data, username) !== (action === 'update')) throw new ApiError(409, 'IMPORT_CONFLICT', "Accounts changed during the import");
+
+            const current = data[username] || {};
+            data[username] = action === 'create'
+                ? {...pickProfile(record), password: passwordHash, role: record.role || 'user', version: 1}
+                : {
+                    ...current,
+                    ...pickProfile(record),
+                    password: passwordHash === undefined ? current.password : passwordHash,
+                    passwordHistory: passwordHash === undefined ? current.passwordHistory : nextPasswordHistory(passwordPolicy, current),
+                    role: record.role === undefined ? current.role || 'user' : record.role,
+                    version: (current.version || 1) + 1,
+                };
+            return {username, action, fields: changedFields(current, data[username])};
+        }));
+        // Overwritten accounts may have a new password or role, so they are logged out everywhere but here
+        changes.filter(({action}) => action === 'update').forEach(({username}) => revokeUserSessions(username, {except: req.session.sid}));
+        await Promise.all(changes.map(({username, action, fields}) => audit.record({
+            action: `account.${action}`, actor: actorOf(req), target: username, fields, ip: req.ip,
+        })));
+
+        res.json(report);
+    }))
+
+    app.get('/audit', requireSession, withRole, requireAdmin, asyncRoute(async (req, res) => {
+        const {action, actor, target} = req.query;
+        const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+
+        const problems = [];
+        if(action !== undefined && !ACTIONS.includes(action)) {
+            problems.push({field: 'action', message: `action must be one of ${ACTIONS.join(', ')}`});
+        }
+        const [since, until] = ['since', 'until'].map(field => {
+            if(req.query[field] === undefined) return undefined;
+            const date = new Date(req.query[field]);
+            if(isNaN(date.getTime())) {
+                problems.push({field, message: `${field} must be an ISO 8601 timestamp`});
+                return undefined;
+            }
+            return date.toISOString();
+        });
+        if(problems.length) throw badRequest("Invalid query", problems);
+
+        const entries = await audit.query({action, actor, target, since, until, limit});
+        res.json({items: entries});
+    }))
+
+    app.post('/session', asyncRoute(async (req, res) => {
+        const {username, password} = req.body;
+        const lockoutKeys = typeof username === 'string' ? [`user:${username}`, `ip:${req.ip}`] : [`ip:${req.ip}`];
+
+        const retryAfter = lockout.retryAfter(lockoutKeys);
+        if(retryAfter) {
+            res.set('Retry-After', String(retryAfter));
+            throw new ApiError(429, 'LOGIN_LOCKED', `Too many failed logins, try again in ${retryAfter} seconds`);
+        }
+
+        const account = typeof username === 'string' ? await storage.get(username) : undefined;
+        if(!account || !verifyPassword(password, account.password)) {
+            lockout.fail(lockoutKeys);
+            await audit.record({action: 'login.failure', actor: null, target: typeof username === 'string' ? username : null, ip: req.ip});
+            throw new ApiError(401, 'INVALID_CREDENTIALS', "Invalid Credentials");
+        }
+
+        // The lockout count is only reset once the second factor is right too, so logging in
+        // again with the password does not buy more guesses at the code
+        if(isTwoFactorEnabled(account)) {
+            const {challengeToken, expiresAt} = loginChallenges.start(username);
+            return res.status(202).json({secondFactorRequired: true, challengeToken, expiresAt});
+        }
+
+        lockout.succeed(lockoutKeys);
+        await audit.record({action: 'login.success', actor: username, target: username, ip: req.ip});
+
+        const {token, expiresAt} = createSession(username);
+        res.json({token, expiresAt, user: toProfile(username, account)});
+    }))
+
+    // Second step of a login with two-factor authentication: the challenge token from POST /session
+    // and a code from the authenticator app, or one of the recovery codes
+    app.post('/session/second-factor', asyncRoute(async (req, res) => {
+        const {challengeToken, code} = req.body;
+
+        const username = typeof challengeToken === 'string' ? loginChallenges.find(challengeToken) : undefined;
+        if(!username) {
+            throw badRequest("Invalid second factor", [{field: 'challengeToken', message: 'challengeToken is invalid or has expired'}]);
+        }
+
+        const lockoutKeys = [`user:${username}`, `ip:${req.ip}`];
+        const retryAfter = lockout.retryAfter(lockoutKeys);
+        if(retryAfter) {
+            res.set('Retry-After', String(retryAfter));
+            throw new ApiError(429, 'LOGIN_LOCKED', `Too many failed logins, try again in ${retryAfter} seconds`);
+        }
+
+        const account = await storage.update(data => {
+            if(!hasAccount(data, username)) return null;
+
+            const current = data[username];
+            const twoFactor = isTwoFactorEnabled(current) ? useSecondFactor(current.twoFactor, code, now()) : null;
+            if(!twoFactor) return null;
+
+            // Using up a code is not a profile change, so the version stays the same
+            data[username] = {...current, twoFactor};
+            return data[username];
+        });
+        if(!account) {
+            lockout.fail(lockoutKeys);
+            await audit.record({action: 'login.failure', actor: null, target: username, ip: req.ip});
+            throw new ApiError(401, 'INVALID_SECOND_FACTOR', "Invalid verification code");
+        }
+        loginChallenges.consume(challengeToken);
+        lockout.succeed(lockoutKeys);
+        await audit.record({action: 'login.success', actor: username, target: username, ip: req.ip});
+
+        const {token, expiresAt} = createSession(username);
+        res.json({token, expiresAt, user: toProfile(username, account)});
+    }))
+
+    // Lets an admin lift a login lock early, for an account (?username=), a client (?ip=) or both
+    app.delete('/lockout', requireSession, withRole, requireAdmin, asyncRoute(async (req, res) => {
+        const {username, ip} = req.query;
+
+        const keys = [];
+        if(typeof username === 'string' && username) keys.push(`user:${username}`);
+        if(typeof ip === 'string' && ip) keys.push(`ip:${ip}`);
+        if(!keys.length) throw badRequest("Invalid query", [{field: 'username', message: 'username or ip is required'}]);
+
+        lockout.clear(keys);
+        await audit.record({action: 'lockout.clear', actor: actorOf(req), target: username || null, ip: req.ip});
+
+        res.status(204).end();
+    }))
+
+    app.get('/session/me', requireSession, asyncRoute(async (req, res) => {
+        const {sid, username, expiresAt} = req.session;
+
+        const account = await storage.get(username);
+        if(!account) {
+            revokeSession(sid);
+            throw notAuthenticated();
+        }
+
+        res.set('ETag', etagFor(account)).json({expiresAt, user: toProfile(username, account)});
+    }))
+
+    app.delete('/session', requireSession, (req, res) => {
+        revokeSession(req.session.sid);
+        res.status(204).end();
+    })
+
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
+    // Puts the seed accounts back, dropping everything written since
+    const reset = () => storage.update(data => replaceAccounts(data, seed || {}));
+
+    const server = http.createServer(app);
+
+    // Stops taking new connections and lets requests in flight finish before the storage is closed
+    const close = () => new Promise((resolve, reject) => {
+        server.close(err => err ? reject(err) : resolve());
+        server.closeIdleConnections();
+    }).then(() => storage.close());
+
+    const listen = () => new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.removeListener('error', reject);
+            resolve(server.address().port);
+        });
+    });
+
+    return (seed ? reset() : Promise.resolve())
+        .then(listen)
+        .then(boundPort => ({app, port: boundPort, url: `http://localhost:${boundPort}`, storage, metrics, reset, close}));
+}
+
+module.exports = {createServer};
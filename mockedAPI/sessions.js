@@ -0,0 +1,98 @@
+const crypto = require('crypto');
+const {ApiError, notAuthenticated} = require('./errors');
+
+// Tokens are <payload>.<signature>, where the payload is base64url encoded JSON and the
+// signature an HMAC-SHA256 of it. Each server gets its own set of live sessions; the secret
+// falls back to a random one, so restarting the API without a fixed secret logs everyone out.
+const createSessions = ({secret = crypto.randomBytes(32).toString('hex'), ttlSeconds = 60 * 60, now = () => Date.now()} = {}) => {
+    // Session ids that have been issued and not yet revoked or expired, with the account each belongs to
+    const activeSessions = new Map();
+
+    const sign = (payload) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+    const createSession = (username) => {
+        const issuedAt = now();
+        activeSessions.forEach((session, id) => {
+            if(session.expiresAt <= issuedAt) activeSessions.delete(id);
+        });
+
+        const sid = crypto.randomBytes(16).toString('hex');
+        const expiresAt = issuedAt + ttlSeconds * 1000;
+        const payload = Buffer.from(JSON.stringify({sid, sub: username, exp: expiresAt})).toString('base64url');
+
+        activeSessions.set(sid, {username, expiresAt});
+
+        return {token: `${payload}.${sign(payload)}`, expiresAt: new Date(expiresAt).toISOString()};
+    }
+
+    const decodeToken = (token) => {
+        if(typeof token !== 'string') return null;
+
+        const [payload, signature] = token.split('.');
+        if(!payload || !signature) return null;
+
+        const expected = Buffer.from(sign(payload));
+        const actual = Buffer.from(signature);
+        if(expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+        try {
+            return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+        } catch(e) {
+            return null;
+        }
+    }
+
+    // Resolves a token to {username, expiresAt}, or {error} with "invalid" or "expired"
+    const verifySession = (token) => {
+        const claims = decodeToken(token);
+        const session = claims && activeSessions.get(claims.sid);
+        if(!session || session.username !== claims.sub) return {error: 'invalid'};
+
+        if(claims.exp <= now()) {
+            activeSessions.delete(claims.sid);
+            return {error: 'expired'};
+        }
+
+        return {sid: claims.sid, username: claims.sub, expiresAt: new Date(claims.exp).toISOString()};
+    }
+
+    const revokeSession = (sid) => {
+        activeSessions.delete(sid);
+    }
+
+    // Logs an account out everywhere, e.g. once it is deleted or its password changes, so an old token
+    // cannot outlive the account or password it was issued for. except keeps one session, such as the
+    // one that made the change.
+    const revokeUserSessions = (username, {except} = {}) => {
+        activeSessions.forEach((session, sid) => {
+            if(session.username === username && sid !== except) activeSessions.delete(sid);
+        });
+    }
+
+    const readBearerToken = (req) => {
+        const header = req.get('Authorization') || '';
+        const [scheme, token] = header.split(' ');
+        return scheme === 'Bearer' ? token : undefined;
+    }
+
+    // Express middleware: rejects the request with 401 unless it carries a live session token
+    const requireSession = (req, res, next) => {
+        const session = verifySession(readBearerToken(req));
+        if(session.error === 'expired') throw new ApiError(401, 'SESSION_EXPIRED', "Session Expired");
+        if(session.error) throw notAuthenticated();
+
+        req.session = session;
+        next();
+    }
+
+    // Express middleware: attaches req.session when the request carries a live session token
+    const optionalSession = (req, res, next) => {
+        const session = verifySession(readBearerToken(req));
+        if(!session.error) req.session = session;
+        next();
+    }
+
+    return {createSession, verifySession, revokeSession, revokeUserSessions, requireSession, optionalSession};
+}
+
+module.exports = {createSessions};
@@ -0,0 +1,58 @@
+const Datastore = require('@seald-io/nedb');
+const {createQueue} = require('./queue');
+
+// Stores accounts as documents in an NeDB datafile, keyed by username (_id).
+// NeDB appends changes to its datafile and compacts it with a crash-safe rename.
+// An empty datafile is filled from `seed` the first time it is opened.
+const createEmbeddedDbStorage = ({path: filePath, seed = {}}) => {
+    const db = new Datastore({filename: filePath});
+    const enqueue = createQueue();
+
+    const ready = db.loadDatabaseAsync()
+        .then(() => db.countAsync({}))
+        .then(count => {
+            if(count) return;
+            const docs = Object.keys(seed).map(username => ({...seed[username], _id: username}));
+            return docs.length ? db.insertAsync(docs) : undefined;
+        });
+
+    const toAccount = ({_id, ...account}) => account;
+
+    const read = () => ready.then(() => db.findAsync({})).then(docs => {
+        const data = {};
+        docs.forEach(doc => {
+            data[doc._id] = toAccount(doc);
+        });
+        return data;
+    });
+
+    return {
+        read,
+
+        get: (username) => ready.then(() => db.findOneAsync({_id: String(username)})).then(doc => doc ? toAccount(doc) : undefined),
+
+        // Applies the mutation to a snapshot, then writes back only the accounts that changed
+        update: (mutate) => enqueue(() => read().then(data => {
+            const before = JSON.parse(JSON.stringify(data));
+            const result = mutate(data);
+
+            const writes = [];
+            Object.keys(before).forEach(username => {
+                if(!Object.prototype.hasOwnProperty.call(data, username)) writes.push(db.removeAsync({_id: username}, {}));
+            });
+            Object.keys(data).forEach(username => {
+                if(JSON.stringify(before[username]) !== JSON.stringify(data[username])) {
+                    // NeDB drops undefined fields the same way JSON does
+                    const account = JSON.parse(JSON.stringify(data[username]));
+                    writes.push(db.updateAsync({_id: username}, {_id: username, ...account}, {upsert: true}));
+                }
+            });
+
+            return Promise.all(writes).then(() => result);
+        })),
+
+        close: () => enqueue(() => ready.then(() => db.compactDatafileAsync())),
+    }
+}
+
+module.exports = {createEmbeddedDbStorage};
@@ -0,0 +1,35 @@
+const fs = require('fs');
+const {createJsonFileStorage} = require('./json-file');
+const {createMemoryStorage} = require('./memory');
+const {createEmbeddedDbStorage} = require('./embedded-db');
+
+const DEFAULT_PATHS = {
+    json: './storage/account.json',
+    nedb: './storage/account.db',
+};
+
+// The memory and nedb backends start from a copy of the JSON accounts file when there is one
+const readSeed = (seedPath = DEFAULT_PATHS.json) => {
+    return fs.existsSync(seedPath) ? JSON.parse(fs.readFileSync(seedPath, 'utf-8')) : {};
+}
+
+// Every backend resolves to the same interface:
+//   read()          -> {username: account} snapshot of all accounts
+//   get(username)   -> account, or undefined
+//   update(mutate)  -> runs mutate(data) against a fresh snapshot and persists what it changed.
+//                      Updates are serialized, and nothing is written when mutate throws.
+//   close()         -> waits for queued writes
+const createStorage = ({backend = 'json', path, seedPath} = {}) => {
+    switch(backend) {
+        case 'json':
+            return createJsonFileStorage({path: path || DEFAULT_PATHS.json});
+        case 'memory':
+            return createMemoryStorage({seed: readSeed(seedPath)});
+        case 'nedb':
+            return createEmbeddedDbStorage({path: path || DEFAULT_PATHS.nedb, seed: readSeed(seedPath)});
+        default:
+            throw new Error(`Unknown storage backend "${backend}", expected json, memory or nedb`);
+    }
+}
+
+module.exports = {createStorage};
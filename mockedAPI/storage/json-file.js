@@ -0,0 +1,39 @@
+const fs = require('fs');
+const path = require('path');
+const {createQueue} = require('./queue');
+
+let tempCounter = 0;
+
+// Stores every account in a single JSON file. The file is re-read on every call so edits made
+// behind the API's back are picked up; writes go through an in-process queue and land with a
+// write-to-temp-then-rename, so a crash mid-write never leaves a half-written file behind.
+const createJsonFileStorage = ({path: filePath}) => {
+    const enqueue = createQueue();
+
+    // A missing file is an empty store; the first write creates it
+    const load = () => fs.promises.readFile(filePath, 'utf-8')
+        .catch(err => err.code === 'ENOENT' ? '' : Promise.reject(err))
+        .then(contents => JSON.parse(contents || '{}'));
+
+    const save = (data) => {
+        const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${tempCounter++}.tmp`);
+        return fs.promises.writeFile(tempPath, JSON.stringify(data, null, 4), 'utf-8')
+            .then(() => fs.promises.rename(tempPath, filePath))
+            .catch(err => fs.promises.unlink(tempPath).catch(() => {}).then(() => Promise.reject(err)));
+    }
+
+    return {
+        read: load,
+
+        get: (username) => load().then(data => Object.prototype.hasOwnProperty.call(data, username) ? data[username] : undefined),
+
+        update: (mutate) => enqueue(() => load().then(data => {
+            const result = mutate(data);
+            return save(data).then(() => result);
+        })),
+
+        close: () => enqueue(() => Promise.resolve()),
+    }
+}
+
+module.exports = {createJsonFileStorage};
@@ -0,0 +1,28 @@
+const {createQueue} = require('./queue');
+
+const clone = (data) => JSON.parse(JSON.stringify(data));
+
+// Keeps accounts in process memory only; everything is lost when the API stops
+const createMemoryStorage = ({seed = {}} = {}) => {
+    let data = clone(seed);
+    const enqueue = createQueue();
+
+    return {
+        read: () => Promise.resolve(clone(data)),
+
+        get: (username) => Promise.resolve(
+            Object.prototype.hasOwnProperty.call(data, username) ? clone(data[username]) : undefined
+        ),
+
+        update: (mutate) => enqueue(() => {
+            const next = clone(data);
+            const result = mutate(next);
+            data = next;
+            return result;
+        }),
+
+        close: () => Promise.resolve(),
+    }
+}
+
+module.exports = {createMemoryStorage};
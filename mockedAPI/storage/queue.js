@@ -0,0 +1,12 @@
+// Runs async tasks one at a time, in the order they were queued
+const createQueue = () => {
+    let tail = Promise.resolve();
+
+    return (task) => {
+        const run = tail.then(() => task());
+        tail = run.catch(() => {});
+        return run;
+    }
+}
+
+module.exports = {createQueue};
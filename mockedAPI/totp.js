@@ -0,0 +1,80 @@
+const crypto = require('crypto');
+
+// Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226), using only Node's
+// crypto module. Every function takes the time as an option, so tests can pin the clock.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer) => {
+    let bits = '';
+    buffer.forEach(byte => {
+        bits += byte.toString(2).padStart(8, '0');
+    });
+    let encoded = '';
+    for(let i = 0; i < bits.length; i += 5) {
+        encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return encoded;
+}
+
+// Accepts lower case, spaces and padding, the way authenticator apps display secrets
+const base32Decode = (encoded) => {
+    const bits = encoded.toUpperCase().replace(/[\s=]/g, '').split('').map(char => {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if(value === -1) throw new Error(`Invalid base32 character "${char}"`);
+        return value.toString(2).padStart(5, '0');
+    }).join('');
+
+    const bytes = [];
+    for(let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+}
+
+const generateSecret = () => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+// RFC 4226 section 5.3: HMAC-SHA1 of the 8 byte counter, dynamically truncated
+const hotp = (key, counter, digits = DIGITS) => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac('sha1', key).update(message).digest();
+
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+const counterAt = (now) => Math.floor(now / 1000 / STEP_SECONDS);
+
+// The code an authenticator app shows at the given time (milliseconds since the epoch)
+const generateTotp = (secret, {now = Date.now(), digits = DIGITS} = {}) => {
+    return hotp(base32Decode(secret), counterAt(now), digits);
+}
+
+// Returns the time step the code belongs to, or null when it does not match. window allows
+// for clock drift: 1 also accepts the previous and the next step. Callers store the step
+// and pass it back as afterCounter, so a code that has been used once is not accepted again.
+const verifyTotp = (secret, code, {now = Date.now(), window = 1, afterCounter = -1, digits = DIGITS} = {}) => {
+    if(typeof code !== 'string' || !new RegExp(`^\\d{${digits}}$`).test(code)) return null;
+
+    const key = base32Decode(secret);
+    const current = counterAt(now);
+    for(let counter = current - window; counter <= current + window; counter++) {
+        if(counter <= afterCounter) continue;
+        const expected = Buffer.from(hotp(key, counter, digits));
+        if(crypto.timingSafeEqual(expected, Buffer.from(code))) return counter;
+    }
+    return null;
+}
+
+// The otpauth:// URI authenticator apps import, usually by scanning it as a QR code
+const provisioningUri = ({secret, account, issuer}) => {
+    const label = encodeURIComponent(`${issuer}:${account}`);
+    const params = new URLSearchParams({secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS)});
+    return `otpauth://totp/${label}?${params}`;
+}
+
+module.exports = {base32Encode, base32Decode, generateSecret, hotp, generateTotp, verifyTotp, provisioningUri};
@@ -0,0 +1,55 @@
+const crypto = require('crypto');
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are random, so a plain SHA-256 is enough to keep them out of storage
+const hashRecoveryCode = (code) => crypto.createHash('sha256').update(String(code).trim().toLowerCase()).digest('hex');
+
+// Codes look like "3f9a1-c04be": ten hex digits, split so they are easy to copy by hand
+const generateRecoveryCodes = () => Array.from({length: RECOVERY_CODE_COUNT}, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+});
+
+// Returns the stored hashes left once the code is used up, or null when it is not one of them
+const useRecoveryCode = (hashes, code) => {
+    if(typeof code !== 'string' || !hashes) return null;
+
+    const hash = hashRecoveryCode(code);
+    const index = hashes.indexOf(hash);
+    return index === -1 ? null : [...hashes.slice(0, index), ...hashes.slice(index + 1)];
+}
+
+// Logins that passed the password check and wait for a second factor. In memory, like sessions.
+const createLoginChallenges = ({ttlSeconds, now = () => Date.now()}) => {
+    const challenges = new Map();
+
+    const prune = () => {
+        challenges.forEach((challenge, token) => {
+            if(challenge.expiresAt <= now()) challenges.delete(token);
+        });
+    }
+
+    const start = (username) => {
+        prune();
+        const challengeToken = crypto.randomBytes(32).toString('hex');
+        const expiresAt = now() + ttlSeconds * 1000;
+        challenges.set(challengeToken, {username, expiresAt});
+        return {challengeToken, expiresAt: new Date(expiresAt).toISOString()};
+    }
+
+    // The username waiting on the token, or undefined once it has expired or been used
+    const find = (challengeToken) => {
+        prune();
+        const challenge = challenges.get(challengeToken);
+        return challenge ? challenge.username : undefined;
+    }
+
+    const consume = (challengeToken) => {
+        challenges.delete(challengeToken);
+    }
+
+    return {start, find, consume};
+}
+
+module.exports = {hashRecoveryCode, generateRecoveryCodes, useRecoveryCode, createLoginChallenges};
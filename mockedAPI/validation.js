@@ -0,0 +1,54 @@
+const {badRequest} = require('./errors');
+const {validateAccount: checkAccount} = require('../shared/account');
+const {FORMATS, CONFLICT_POLICIES} = require('./import-export');
+
+const THEMES = ['light', 'dark', 'high-contrast'];
+
+// GET /users can sort and filter by these; pages hold DEFAULT_PAGE_SIZE users unless asked otherwise
+const USER_LIST_FIELDS = ['username', 'name', 'role', 'favouriteFruit', 'favouriteMovie', 'favouriteNumber'];
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+const isObject = (body) => !!body && typeof body === 'object' && !Array.isArray(body);
+
+// Checks a POST or PUT /user body against the shared account rules and throws a 400 listing every
+// problem found. Creating needs a username and password; updating keeps the stored password when it is left out.
+const validateAccount = (body, {creating}) => {
+    if(!isObject(body)) throw badRequest("Request body must be a JSON object");
+
+    const problems = checkAccount(body, {creating});
+    if(problems.length) throw badRequest("Invalid account details", problems.map(({field, message}) => ({field, message})));
+}
+
+// Checks a PUT /user/theme body. A null theme clears the choice so the browser's setting applies again.
+const validateTheme = (body) => {
+    if(!isObject(body)) throw badRequest("Request body must be a JSON object");
+    if(body.theme !== null && !THEMES.includes(body.theme)) {
+        throw badRequest("Invalid theme", [{field: 'theme', message: `theme must be null or one of ${THEMES.join(', ')}`}]);
+    }
+}
+
+// Checks a POST /users/import body; the file itself is checked row by row once it is parsed
+const validateImport = (body) => {
+    if(!isObject(body)) throw badRequest("Request body must be a JSON object");
+
+    const {format, content, onConflict = 'fail', dryRun = false} = body;
+    const problems = [];
+    if(!FORMATS.includes(format)) problems.push({field: 'format', message: `format must be one of ${FORMATS.join(', ')}`});
+    if(typeof content !== 'string' || !content.trim()) problems.push({field: 'content', message: 'content is required'});
+    if(!CONFLICT_POLICIES.includes(onConflict)) problems.push({field: 'onConflict', message: `onConflict must be one of ${CONFLICT_POLICIES.join(', ')}`});
+    if(typeof dryRun !== 'boolean') problems.push({field: 'dryRun', message: 'dryRun must be a boolean'});
+
+    if(problems.length) throw badRequest("Invalid import", problems);
+    return {format, content, onConflict, dryRun};
+}
+
+module.exports = {
+    THEMES,
+    USER_LIST_FIELDS,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    validateAccount,
+    validateTheme,
+    validateImport,
+};
@@ -92,9 +92,9 @@ export default defineConfig({
       url: 'http://localhost:8080',
       reuseExistingServer: !process.env.CI,
     },
-    // Backend server for API tests
+    // Backend the frontend's /api proxy talks to; the API tests start their own, see tests/api-server.ts
     {
-      command: 'node server.js',
+      command: 'npm run start:server',
       url: 'http://localhost:9999',
       reuseExistingServer: !process.env.CI,
     },
@@ -0,0 +1,91 @@
+// Types for account.js; keep the two in step
+
+export type Role = 'user' | 'admin';
+
+export type FieldName = 'username' | 'password' | 'name' | 'favouriteFruit' | 'favouriteMovie' | 'favouriteNumber' | 'role';
+
+// What users fill in about themselves
+export interface Profile {
+    name: string,
+    favouriteFruit: string,
+    favouriteMovie: string,
+    // Kept as sent, so it may be a number or text such as "seven"
+    favouriteNumber: string | number,
+}
+
+// A POST /user body
+export interface NewAccount extends Profile {
+    username: string,
+    password: string,
+    // Admins only; defaults to user
+    role?: Role,
+}
+
+// An account as the API stores it, keyed by username
+export interface StoredAccount extends Profile {
+    // An scrypt hash, never the password itself
+    password: string,
+    role?: Role,
+    version?: number,
+}
+
+export interface FieldRule {
+    required: 'always' | 'create' | false,
+    types: ('string' | 'number')[],
+    maxLength?: number,
+    pattern?: RegExp,
+    reserved?: string[],
+    formatMessage?: string,
+    choices?: string[],
+}
+
+export interface AccountProblem {
+    field: FieldName | 'body',
+    code: 'required' | 'type' | 'choice' | 'format' | 'tooLong',
+    // In English and naming the field by its key, e.g. "favouriteFruit is required"
+    message: string,
+    // The maximum length, for tooLong
+    limit?: number,
+}
+
+export type CharacterClassName = 'lower' | 'upper' | 'digit' | 'symbol';
+
+export interface CharacterClass {
+    pattern: RegExp,
+    description: string,
+}
+
+export interface PasswordRules {
+    minLength: number,
+    requiredClasses: CharacterClassName[],
+}
+
+export interface PasswordPolicy extends PasswordRules {
+    // How many previous passwords may not be reused
+    history: number,
+}
+
+export type PasswordRule = {
+    code: 'minLength',
+    limit: number,
+    message: string,
+    met: boolean,
+} | {
+    code: 'characterClass',
+    characterClass: CharacterClassName,
+    message: string,
+    met: boolean,
+};
+
+export const ROLES: Role[];
+export const USERNAME_PATTERN: RegExp;
+export const MAX_FIELD_LENGTH: number;
+export const PROFILE_FIELDS: (keyof Profile)[];
+export const FIELD_RULES: Record<FieldName, FieldRule>;
+export const CHARACTER_CLASSES: Record<CharacterClassName, CharacterClass>;
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy;
+
+export function validateField(field: FieldName, value: unknown, options?: {creating?: boolean}): AccountProblem | null;
+export function validateAccount(account: unknown, options: {creating: boolean}): AccountProblem[];
+export function passwordRules(policy: PasswordRules, password: string): PasswordRule[];
+export function pickProfile(source: Partial<Profile>): Profile;
@@ -0,0 +1,113 @@
+// The account model, shared by the mock API, the React app and the tests so a field is defined in
+// one place. The API checks bodies with validateAccount, openapi.js builds the contract (and so the
+// generated client) from FIELD_RULES, and the forms run the same checks before sending anything.
+// Plain CommonJS so Node can require it as it is; account.d.ts describes it to TypeScript.
+
+const ROLES = ['user', 'admin'];
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+const MAX_FIELD_LENGTH = 64;
+
+// What users fill in about themselves, in the order the forms show it
+const PROFILE_FIELDS = ['name', 'favouriteFruit', 'favouriteMovie', 'favouriteNumber'];
+
+// required is 'always', 'create' (only when the account is created) or false. Optional fields
+// are still checked when they are sent. types are the JSON types a field accepts.
+const FIELD_RULES = {
+    username: {
+        required: 'create',
+        types: ['string'],
+        pattern: USERNAME_PATTERN,
+        // Usernames are object keys in storage, so this one would overwrite the prototype
+        reserved: ['__proto__'],
+        formatMessage: 'must be 3-32 letters, numbers, dots, dashes or underscores',
+    },
+    password: {required: 'create', types: ['string']},
+    name: {required: 'always', types: ['string'], maxLength: MAX_FIELD_LENGTH},
+    favouriteFruit: {required: 'always', types: ['string'], maxLength: MAX_FIELD_LENGTH},
+    favouriteMovie: {required: 'always', types: ['string'], maxLength: MAX_FIELD_LENGTH},
+    // Kept as sent, so 7, "7" and "seven" are all fine
+    favouriteNumber: {required: 'always', types: ['string', 'number'], maxLength: MAX_FIELD_LENGTH},
+    role: {required: false, types: ['string'], choices: ROLES},
+};
+
+// The character classes a password policy can require, by name
+const CHARACTER_CLASSES = {
+    lower: {pattern: /[a-z]/, description: 'a lowercase letter'},
+    upper: {pattern: /[A-Z]/, description: 'an uppercase letter'},
+    digit: {pattern: /[0-9]/, description: 'a number'},
+    symbol: {pattern: /[^A-Za-z0-9]/, description: 'a symbol'},
+};
+
+// The API's password policy unless PASSWORD_MIN_LENGTH, PASSWORD_REQUIRED_CLASSES or PASSWORD_HISTORY
+// change it; the forms fetch the live one from GET /password-policy
+const DEFAULT_PASSWORD_POLICY = {minLength: 8, requiredClasses: ['lower', 'upper', 'digit'], history: 3};
+
+const isBlank = (value) => value === undefined || value === null || String(value).trim() === '';
+
+const isRequired = (rule, creating) => rule.required === 'always' || (rule.required === 'create' && creating);
+
+// The first thing wrong with one field's value, as {field, code, message, limit?}, or null.
+// code is required, type, choice, format or tooLong, so the UI can word the problem itself.
+const validateField = (field, value, {creating = false} = {}) => {
+    const rule = FIELD_RULES[field];
+    const problem = (code, message, extra = {}) => ({field, code, message: `${field} ${message}`, ...extra});
+
+    if(value === undefined && !isRequired(rule, creating)) return null;
+
+    if(rule.choices) return rule.choices.includes(value) ? null : problem('choice', `must be one of ${rule.choices.join(', ')}`);
+
+    if(isBlank(value)) return problem('required', 'is required');
+
+    if(!rule.types.includes(typeof value)) return problem('type', `must be ${rule.types.map(type => `a ${type}`).join(' or ')}`);
+
+    if(rule.pattern && (!rule.pattern.test(value) || (rule.reserved || []).includes(value))) return problem('format', rule.formatMessage);
+
+    if(rule.maxLength !== undefined && String(value).length > rule.maxLength) {
+        return problem('tooLong', `must be at most ${rule.maxLength} characters`, {limit: rule.maxLength});
+    }
+
+    return null;
+}
+
+// Every problem with an account body, in field order. Creating needs a username and password;
+// updates ignore the username and keep the stored password when it is left out.
+const validateAccount = (account, {creating}) => {
+    if(!account || typeof account !== 'object' || Array.isArray(account)) {
+        return [{field: 'body', code: 'type', message: 'body must be a JSON object'}];
+    }
+
+    return Object.keys(FIELD_RULES)
+        .filter(field => creating || field !== 'username')
+        .map(field => validateField(field, account[field], {creating}))
+        .filter(Boolean);
+}
+
+// The policy's length and character class rules, each with whether the password meets it, as
+// {code: 'minLength', limit, message, met} or {code: 'characterClass', characterClass, message, met}.
+// Recent passwords are refused too, but only the API has their hashes to check.
+const passwordRules = ({minLength, requiredClasses}, password) => [
+    {code: 'minLength', limit: minLength, message: `must be at least ${minLength} characters`, met: password.length >= minLength},
+    ...requiredClasses.map(name => ({
+        code: 'characterClass',
+        characterClass: name,
+        message: `must contain ${CHARACTER_CLASSES[name].description}`,
+        met: CHARACTER_CLASSES[name].pattern.test(password),
+    })),
+];
+
+// Copies just the profile fields, e.g. out of a request body or a stored account
+const pickProfile = (source) => PROFILE_FIELDS.reduce((profile, field) => ({...profile, [field]: source[field]}), {});
+
+module.exports = {
+    ROLES,
+    USERNAME_PATTERN,
+    MAX_FIELD_LENGTH,
+    PROFILE_FIELDS,
+    FIELD_RULES,
+    CHARACTER_CLASSES,
+    DEFAULT_PASSWORD_POLICY,
+    validateField,
+    validateAccount,
+    passwordRules,
+    pickProfile,
+};
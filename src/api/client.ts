@@ -0,0 +1,621 @@
+// Generated from mockedAPI/openapi.js by mockedAPI/generate-client.js; do not edit by hand.
+// Run `npm run generate:client` after changing the API contract.
+
+export interface Problem {
+    field: string,
+    message: string,
+}
+
+export interface ErrorBody {
+    // Stable identifier, e.g. ACCOUNT_EXISTS
+    code: string,
+    message: string,
+    details?: Problem[],
+}
+
+export interface ErrorResponse {
+    error: ErrorBody,
+}
+
+export type Role = 'user' | 'admin';
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+// Kept as sent, so it may be a number or text such as "seven"
+export type FavouriteNumber = number | string;
+
+export interface User {
+    username: string,
+    role: Role,
+    name: string,
+    favouriteFruit: string,
+    favouriteMovie: string,
+    favouriteNumber: number | string,
+    twoFactorEnabled: boolean,
+    // Unset until the user picks one; the browser's colour scheme applies until then
+    theme?: ThemeName,
+    // Bumped by every profile change and sent back as the ETag
+    version: number,
+}
+
+export interface NewAccount {
+    username: string,
+    password: string,
+    // Admins only; defaults to user
+    role?: Role,
+    name: string,
+    favouriteFruit: string,
+    favouriteMovie: string,
+    favouriteNumber: FavouriteNumber,
+}
+
+export interface AccountUpdate {
+    // Admins only; users go through PUT /user/password
+    password?: string,
+    // Admins only
+    role?: Role,
+    name: string,
+    favouriteFruit: string,
+    favouriteMovie: string,
+    favouriteNumber: FavouriteNumber,
+}
+
+export interface PasswordChange {
+    currentPassword: string,
+    newPassword: string,
+}
+
+export interface ThemeChoice {
+    // null clears the choice
+    theme: 'light' | 'dark' | 'high-contrast' | null,
+}
+
+export interface PasswordPolicy {
+    minLength: number,
+    requiredClasses: {
+        name: 'lower' | 'upper' | 'digit' | 'symbol',
+        description: string,
+    }[],
+    // How many previous passwords may not be reused
+    history: number,
+}
+
+export interface RecoveryStart {
+    username: string,
+}
+
+export interface RecoveryChallenge {
+    challengeId: string,
+    questions: {
+        field: 'favouriteFruit' | 'favouriteMovie' | 'favouriteNumber',
+        question: string,
+    }[],
+    expiresAt: string,
+}
+
+export interface RecoveryAnswers {
+    challengeId: string,
+    // Answers keyed by the questions' fields
+    answers: {[key: string]: string},
+}
+
+export interface ResetToken {
+    resetToken: string,
+    expiresAt: string,
+}
+
+export interface PasswordReset {
+    resetToken: string,
+    newPassword: string,
+}
+
+export interface TwoFactorEnrolment {
+    // Base32, for typing into an authenticator app
+    secret: string,
+    // otpauth:// URI, for a QR code
+    uri: string,
+}
+
+export interface TwoFactorCode {
+    code: string,
+}
+
+export interface TwoFactorConfirmation {
+    user: User,
+    recoveryCodes: string[],
+}
+
+export interface UserPage {
+    items: User[],
+    total: number,
+    page: number,
+    pageSize: number,
+}
+
+export interface ExportedUser {
+    username: string,
+    name: string,
+    role: Role,
+    favouriteFruit: string,
+    favouriteMovie: string,
+    favouriteNumber: number | string,
+}
+
+export interface ImportRequest {
+    format: 'csv' | 'json',
+    // The file's text
+    content: string,
+    // What to do with usernames that are already taken
+    onConflict?: 'skip' | 'overwrite' | 'fail',
+    // Only report what would happen
+    dryRun?: boolean,
+}
+
+export interface ImportRow {
+    // Counted from 1, not counting a CSV header
+    row: number,
+    username: string,
+    action: 'create' | 'update' | 'skip' | 'conflict' | 'invalid',
+    problems: Problem[],
+}
+
+export interface ImportReport {
+    dryRun: boolean,
+    onConflict: 'skip' | 'overwrite' | 'fail',
+    created: number,
+    updated: number,
+    skipped: number,
+    conflicts: number,
+    invalid: number,
+    rows: ImportRow[],
+}
+
+export interface AuditEntry {
+    timestamp: string,
+    action: 'account.create' | 'account.update' | 'account.delete' | 'login.success' | 'login.failure' | 'lockout.clear' | 'password.change' | 'password.reset' | 'recovery.failure' | '2fa.enable' | '2fa.disable',
+    // null when nobody was logged in
+    actor: string | null,
+    target: string | null,
+    // Names of the fields that changed, never their values
+    fields: string[],
+    ip: string,
+}
+
+export interface AuditPage {
+    items: AuditEntry[],
+}
+
+export interface Credentials {
+    username: string,
+    password: string,
+}
+
+export interface SecondFactor {
+    challengeToken: string,
+    code: string,
+}
+
+export interface Session {
+    // Send as Authorization: Bearer <token>
+    token: string,
+    expiresAt: string,
+    user: User,
+}
+
+export interface SecondFactorChallenge {
+    secondFactorRequired: true,
+    challengeToken: string,
+    expiresAt: string,
+}
+
+export interface CurrentSession {
+    expiresAt: string,
+    user: User,
+}
+
+export interface Health {
+    status: 'ok' | 'unavailable',
+    checks: {
+        storage: 'ok' | 'failing',
+    },
+    uptimeSeconds: number,
+}
+
+export interface ApiRequest {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    query?: {[name: string]: string | number | undefined},
+    headers?: {[name: string]: string | undefined},
+    body?: unknown,
+}
+
+export interface ApiResponse<Status extends number, Body> {
+    status: Status,
+    body: Body,
+    // Header names are lower case
+    headers: {[name: string]: string},
+}
+
+// Sends a request and resolves with whatever status comes back; only network failures reject.
+// The base URL and the session token are the transport's business.
+export type Transport = (request: ApiRequest) => Promise<ApiResponse<number, unknown>>;
+
+export type SuccessStatus = 200 | 201 | 202 | 204;
+
+// The members of a response union that mean the request worked
+export type Success<Response> = Response extends ApiResponse<SuccessStatus, unknown> ? Response : never;
+
+export type GetRootResponse =
+    | ApiResponse<200, string>;
+
+export type GetOpenApiDocumentResponse =
+    | ApiResponse<200, {[key: string]: unknown}>;
+
+export type GetDocsResponse =
+    | ApiResponse<200, string>;
+
+export type GetHealthResponse =
+    | ApiResponse<200, Health>
+    | ApiResponse<503, Health>;
+
+export type GetMetricsResponse =
+    | ApiResponse<200, string>;
+
+export interface GetUserRequest {
+    query: {
+        // The account to act on
+        username: string,
+    },
+}
+
+export type GetUserResponse =
+    | ApiResponse<200, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface CreateUserRequest {
+    body: NewAccount,
+}
+
+export type CreateUserResponse =
+    | ApiResponse<201, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<409, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface UpdateUserRequest {
+    query: {
+        // The account to act on
+        username: string,
+    },
+    headers?: {
+        // Only act if the account is still at this version, e.g. "3"
+        'If-Match'?: string,
+    },
+    body: AccountUpdate,
+}
+
+export type UpdateUserResponse =
+    | ApiResponse<200, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<412, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface DeleteUserRequest {
+    query: {
+        // The account to act on
+        username: string,
+    },
+    headers?: {
+        // Only act if the account is still at this version, e.g. "3"
+        'If-Match'?: string,
+    },
+}
+
+export type DeleteUserResponse =
+    | ApiResponse<204, undefined>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<412, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ChangePasswordRequest {
+    headers?: {
+        // Only act if the account is still at this version, e.g. "3"
+        'If-Match'?: string,
+    },
+    body: PasswordChange,
+}
+
+export type ChangePasswordResponse =
+    | ApiResponse<200, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<412, ErrorResponse>
+    | ApiResponse<429, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface SaveThemeRequest {
+    body: ThemeChoice,
+}
+
+export type SaveThemeResponse =
+    | ApiResponse<200, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export type GetPasswordPolicyResponse =
+    | ApiResponse<200, PasswordPolicy>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface StartPasswordResetRequest {
+    body: RecoveryStart,
+}
+
+export type StartPasswordResetResponse =
+    | ApiResponse<200, RecoveryChallenge>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface VerifyPasswordResetRequest {
+    body: RecoveryAnswers,
+}
+
+export type VerifyPasswordResetResponse =
+    | ApiResponse<200, ResetToken>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<429, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ResetPasswordRequest {
+    body: PasswordReset,
+}
+
+export type ResetPasswordResponse =
+    | ApiResponse<204, undefined>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export type StartTwoFactorResponse =
+    | ApiResponse<201, TwoFactorEnrolment>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<409, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface DisableTwoFactorRequest {
+    query?: {
+        // Another account, for admins
+        username?: string,
+    },
+    body?: TwoFactorCode,
+}
+
+export type DisableTwoFactorResponse =
+    | ApiResponse<200, User>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<409, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ConfirmTwoFactorRequest {
+    body: TwoFactorCode,
+}
+
+export type ConfirmTwoFactorResponse =
+    | ApiResponse<200, TwoFactorConfirmation>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<404, ErrorResponse>
+    | ApiResponse<409, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ListUsersRequest {
+    query?: {
+        // Text to look for in any field
+        q?: string,
+        // Field to sort by
+        sort?: 'username' | 'name' | 'role' | 'favouriteFruit' | 'favouriteMovie' | 'favouriteNumber',
+        // Sort order
+        order?: 'asc' | 'desc',
+        // Page number, from 1
+        page?: number,
+        // Accounts per page
+        pageSize?: number,
+        // Text to look for in username
+        username?: string,
+        // Text to look for in name
+        name?: string,
+        // Text to look for in role
+        role?: string,
+        // Text to look for in favouriteFruit
+        favouriteFruit?: string,
+        // Text to look for in favouriteMovie
+        favouriteMovie?: string,
+        // Text to look for in favouriteNumber
+        favouriteNumber?: string,
+    },
+}
+
+export type ListUsersResponse =
+    | ApiResponse<200, UserPage>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ExportUsersRequest {
+    query?: {
+        // File format
+        format?: 'csv' | 'json',
+    },
+}
+
+export type ExportUsersResponse =
+    | ApiResponse<200, string | ExportedUser[]>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ImportUsersRequest {
+    body: ImportRequest,
+}
+
+export type ImportUsersResponse =
+    | ApiResponse<200, ImportReport>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<409, ErrorResponse>
+    | ApiResponse<413, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ReadAuditLogRequest {
+    query?: {
+        // Only this kind of event
+        action?: 'account.create' | 'account.update' | 'account.delete' | 'login.success' | 'login.failure' | 'lockout.clear' | 'password.change' | 'password.reset' | 'recovery.failure' | '2fa.enable' | '2fa.disable',
+        // Only events caused by this account
+        actor?: string,
+        // Only events affecting this account
+        target?: string,
+        // Only events at or after this time
+        since?: string,
+        // Only events at or before this time
+        until?: string,
+        // Most events to return
+        limit?: number,
+    },
+}
+
+export type ReadAuditLogResponse =
+    | ApiResponse<200, AuditPage>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface CreateSessionRequest {
+    body: Credentials,
+}
+
+export type CreateSessionResponse =
+    | ApiResponse<200, Session>
+    | ApiResponse<202, SecondFactorChallenge>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<429, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export type DeleteSessionResponse =
+    | ApiResponse<204, undefined>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface VerifySecondFactorRequest {
+    body: SecondFactor,
+}
+
+export type VerifySecondFactorResponse =
+    | ApiResponse<200, Session>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<429, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export type GetCurrentSessionResponse =
+    | ApiResponse<200, CurrentSession>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export interface ClearLockoutRequest {
+    query?: {
+        // Unlock this account
+        username?: string,
+        // Unlock this client
+        ip?: string,
+    },
+}
+
+export type ClearLockoutResponse =
+    | ApiResponse<204, undefined>
+    | ApiResponse<400, ErrorResponse>
+    | ApiResponse<401, ErrorResponse>
+    | ApiResponse<403, ErrorResponse>
+    | ApiResponse<500, ErrorResponse>;
+
+export const createClient = (transport: Transport) => ({
+    // Check the API is up
+    getRoot: () => transport({method: 'GET', path: '/'}) as Promise<GetRootResponse>,
+    // This document
+    getOpenApiDocument: () => transport({method: 'GET', path: '/openapi.json'}) as Promise<GetOpenApiDocumentResponse>,
+    // This document as a web page
+    getDocs: () => transport({method: 'GET', path: '/docs'}) as Promise<GetDocsResponse>,
+    // Check the API and its storage are working
+    getHealth: () => transport({method: 'GET', path: '/health'}) as Promise<GetHealthResponse>,
+    // Request counts, error counts and latency histograms per route, in the Prometheus text format
+    getMetrics: () => transport({method: 'GET', path: '/metrics'}) as Promise<GetMetricsResponse>,
+    // Read an account
+    getUser: (request: GetUserRequest) => transport({method: 'GET', path: '/user', ...request}) as Promise<GetUserResponse>,
+    // Create an account
+    createUser: (request: CreateUserRequest) => transport({method: 'POST', path: '/user', ...request}) as Promise<CreateUserResponse>,
+    // Update an account
+    updateUser: (request: UpdateUserRequest) => transport({method: 'PUT', path: '/user', ...request}) as Promise<UpdateUserResponse>,
+    // Delete an account
+    deleteUser: (request: DeleteUserRequest) => transport({method: 'DELETE', path: '/user', ...request}) as Promise<DeleteUserResponse>,
+    // Change the session's own password
+    changePassword: (request: ChangePasswordRequest) => transport({method: 'PUT', path: '/user/password', ...request}) as Promise<ChangePasswordResponse>,
+    // Save the session's display theme
+    saveTheme: (request: SaveThemeRequest) => transport({method: 'PUT', path: '/user/theme', ...request}) as Promise<SaveThemeResponse>,
+    // Read the rules new passwords must follow
+    getPasswordPolicy: () => transport({method: 'GET', path: '/password-policy'}) as Promise<GetPasswordPolicyResponse>,
+    // Start a forgotten-password recovery
+    startPasswordReset: (request: StartPasswordResetRequest) => transport({method: 'POST', path: '/password-reset/challenge', ...request}) as Promise<StartPasswordResetResponse>,
+    // Answer the security questions
+    verifyPasswordReset: (request: VerifyPasswordResetRequest) => transport({method: 'POST', path: '/password-reset/verify', ...request}) as Promise<VerifyPasswordResetResponse>,
+    // Set a new password with a reset token
+    resetPassword: (request: ResetPasswordRequest) => transport({method: 'POST', path: '/password-reset', ...request}) as Promise<ResetPasswordResponse>,
+    // Start enrolling in two-factor authentication
+    startTwoFactor: () => transport({method: 'POST', path: '/user/2fa'}) as Promise<StartTwoFactorResponse>,
+    // Turn two-factor authentication off
+    disableTwoFactor: (request: DisableTwoFactorRequest = {}) => transport({method: 'DELETE', path: '/user/2fa', ...request}) as Promise<DisableTwoFactorResponse>,
+    // Turn two-factor authentication on
+    confirmTwoFactor: (request: ConfirmTwoFactorRequest) => transport({method: 'POST', path: '/user/2fa/confirm', ...request}) as Promise<ConfirmTwoFactorResponse>,
+    // List accounts
+    listUsers: (request: ListUsersRequest = {}) => transport({method: 'GET', path: '/users', ...request}) as Promise<ListUsersResponse>,
+    // Download every account as CSV or JSON
+    exportUsers: (request: ExportUsersRequest = {}) => transport({method: 'GET', path: '/users/export', ...request}) as Promise<ExportUsersResponse>,
+    // Create or update accounts in bulk
+    importUsers: (request: ImportUsersRequest) => transport({method: 'POST', path: '/users/import', ...request}) as Promise<ImportUsersResponse>,
+    // Read the audit log, newest first
+    readAuditLog: (request: ReadAuditLogRequest = {}) => transport({method: 'GET', path: '/audit', ...request}) as Promise<ReadAuditLogResponse>,
+    // Log in
+    createSession: (request: CreateSessionRequest) => transport({method: 'POST', path: '/session', ...request}) as Promise<CreateSessionResponse>,
+    // Log out
+    deleteSession: () => transport({method: 'DELETE', path: '/session'}) as Promise<DeleteSessionResponse>,
+    // Finish logging in with a code from the authenticator app or a recovery code
+    verifySecondFactor: (request: VerifySecondFactorRequest) => transport({method: 'POST', path: '/session/second-factor', ...request}) as Promise<VerifySecondFactorResponse>,
+    // Read the session's account
+    getCurrentSession: () => transport({method: 'GET', path: '/session/me'}) as Promise<GetCurrentSessionResponse>,
+    // Lift a login lock early
+    clearLockout: (request: ClearLockoutRequest = {}) => transport({method: 'DELETE', path: '/lockout', ...request}) as Promise<ClearLockoutResponse>,
+});
+
+export type ApiClient = ReturnType<typeof createClient>;
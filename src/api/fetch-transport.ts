@@ -0,0 +1,34 @@
+import {Transport} from './client';
+
+// Sends the generated client's requests with window.fetch, as the session's token when there is one
+export const fetchTransport = (baseUrl: string, token?: string): Transport => ({method, path, query = {}, headers = {}, body}) => {
+    const search = new URLSearchParams();
+    Object.keys(query).forEach(name => {
+        if(query[name] !== undefined) search.append(name, String(query[name]));
+    });
+
+    const sent: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+        if(headers[name] !== undefined) sent[name] = headers[name];
+    });
+    if(body !== undefined) sent['Content-Type'] = 'application/json';
+    if(token) sent['Authorization'] = `Bearer ${token}`;
+
+    const queryString = search.toString();
+    return fetch(`${baseUrl}${path}${queryString ? `?${queryString}` : ''}`, {
+        method,
+        headers: sent,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    }).then(response => {
+        const received: Record<string, string> = {};
+        response.headers.forEach((value: string, name: string) => {
+            received[name.toLowerCase()] = value;
+        });
+
+        const type = response.headers.get('Content-Type') || '';
+        const read: Promise<unknown> = response.status === 204 ? Promise.resolve(undefined)
+            : type.includes('application/json') ? response.json()
+            : response.text();
+        return read.then(parsed => ({status: response.status, body: parsed, headers: received}));
+    });
+}
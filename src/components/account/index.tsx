@@ -1,17 +1,51 @@
-import React, {useContext} from 'react';
-import {AuthContext} from '../../contexts/auth';
+import React, {useContext, useEffect, useRef, useState} from 'react';
+import {AuthContext, User, Profile, ApiError} from '../../contexts/auth';
+import {I18nContext, MessageParams} from '../../contexts/i18n';
+import {RouterContext} from '../../contexts/router';
+import {MessageKey} from '../../locales/types';
+import {describeProblem} from '../../locales/problems';
+import {describeError} from '../../locales/errors';
+import {validateField} from '../../../shared/account';
 import styled from 'styled-components';
+import Button from '../button';
+import ChangePassword from '../change-password';
+import TwoFactor from '../two-factor';
 
-type HeaderProps = {
-    loggedInUser: string
+type AccountProps = {
+    // True at /account/edit, where the profile fields become inputs
+    editing: boolean,
+}
+
+type BannerState = {
+    kind: 'success' | 'error',
+    message: string,
+}
+
+const FIELDS: {key: keyof Profile, label: MessageKey}[] = [
+    {key: 'name', label: 'fields.name'},
+    {key: 'favouriteFruit', label: 'fields.favouriteFruit'},
+    {key: 'favouriteMovie', label: 'fields.favouriteMovie'},
+    {key: 'favouriteNumber', label: 'fields.favouriteNumber'},
+];
+
+const toDraft = ({username, role, twoFactorEnabled, theme, version, ...profile}: User): Profile => profile;
+
+const validate = (profile: Profile, t: (key: MessageKey, params?: MessageParams) => string) => {
+    const errors: Partial<Record<keyof Profile, string>> = {};
+    FIELDS.forEach(({key, label}) => {
+        const problem = validateField(key, profile[key]);
+        if(problem) errors[key] = describeProblem(problem, label, t);
+    });
+    return errors;
 }
 
 const AccountContainer = styled.div`
     display: flex;
     flex-direction: column;
     align-items: center;
-    font-family: 'Courier New', Courier, monospace;
-    background-color:  rgba(247, 247,247, 0.4);
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
     width: 40%;
     height: 85%;
     margin-bottom:5%;
@@ -25,46 +59,219 @@ const Row = styled.div`
     align-items: center;
 `;
 
-const Button = styled.button`
-    background-color: #048ABF;
-    border: none;
-    margin-top: 5px;
-    margin-top: 20px
+const Details = styled.dl`
+    width: 90%;
+    margin: 0;
+    > div {
+        width: 100%;
+    }
+`;
+
+const Description = styled.dd`
+    margin: 0;
+    width: 55%;
+    text-align: right;
+`;
+
+const Field = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+`;
+
+const Input = styled.input`
+    width: 100%;
+    text-align: right;
     border-radius: 15px;
-    width: 50%;
-    font-family: 'Courier New', Courier, monospace;
-    font-size: 1.5em;
-    font-weight: light;
-    color: white;
-    transition: background-color 0.1s ease-in;
-    outline:none;
-    :active {
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
         outline: none;
-        background-color: #F54458;
+        border-color: ${props => props.theme.colors.accent};
     }
+`;
+
+const FieldError = styled.div`
+    color: ${props => props.theme.colors.error};
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+// Always rendered so screen readers announce banners as they appear
+const Announcements = styled.div`
+    width: 90%;
+`;
 
+const Banner = styled.div<{kind: BannerState['kind']}>`
+    margin-top: 20px;
+    padding: 10px;
+    border-radius: 15px;
+    text-align: center;
+    color: ${props => props.theme.colors.onPrimary};
+    background-color: ${props => props.kind === 'success' ? props.theme.colors.link : props.theme.colors.error};
 `;
-export default () => {
-    const {user, logout} = useContext(AuthContext);
+
+const Buttons = styled.div`
+    display: flex;
+    justify-content: center;
+    width: 90%;
+`;
+
+export default ({editing}: AccountProps) => {
+    const {user, sessionExpiresAt, logout, updateProfile, refreshUser} = useContext(AuthContext);
+    const {t, formatNumber, formatDate} = useContext(I18nContext);
+    const {navigate} = useContext(RouterContext);
+    const [draft, setDraft] = useState<Profile | null>(null);
+    const [errors, setErrors] = useState<Partial<Record<keyof Profile, string>>>({});
+    const [banner, setBanner] = useState<BannerState | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [conflict, setConflict] = useState(false);
+    const [changingPassword, setChangingPassword] = useState(false);
+    const [managingTwoFactor, setManagingTwoFactor] = useState(false);
+    const inputs = useRef<Partial<Record<keyof Profile, HTMLInputElement>>>({});
+
+    // The URL decides whether the form is open, so the back button and deep links work too
+    useEffect(() => {
+        if(editing) {
+            setChangingPassword(false);
+            setDraft(toDraft(user));
+            setBanner(null);
+        }
+        else setDraft(null);
+        setErrors({});
+        setConflict(false);
+    }, [editing]);
+
+    const startEditing = () => navigate('/account/edit');
+
+    const cancelEditing = () => navigate('/account');
+
+    // Someone else saved first: load their version rather than overwriting it
+    const reloadLatest = () => {
+        setSaving(true);
+        refreshUser().then(latest => {
+            setDraft(toDraft(latest));
+            setConflict(false);
+            setBanner({kind: 'success', message: t('account.loadedLatest')});
+        }).catch((error: ApiError) => {
+            setBanner({kind: 'error', message: t('account.reloadFailed', {reason: describeError(error, t)})});
+        }).then(() => {
+            setSaving(false);
+        });
+    }
+
+    const startChangingPassword = () => {
+        if(editing) cancelEditing();
+        setBanner(null);
+        setChangingPassword(true);
+    }
+
+    const finishChangingPassword = (changed: boolean) => {
+        setChangingPassword(false);
+        if(changed) setBanner({kind: 'success', message: t('account.passwordChanged')});
+    }
+
+    const startManagingTwoFactor = () => {
+        setBanner(null);
+        setManagingTwoFactor(true);
+    }
+
+    const finishManagingTwoFactor = (message?: string) => {
+        setManagingTwoFactor(false);
+        if(message) setBanner({kind: 'success', message});
+    }
+
+    // Favourite numbers are stored as entered; show them in the locale's notation when they are numeric
+    const displayValue = (key: keyof Profile) => {
+        const value = user[key];
+        if(key === 'favouriteNumber' && String(value).trim() !== '' && !isNaN(Number(value))) return formatNumber(Number(value));
+        return value;
+    }
+
+    const save = () => {
+        const nextErrors = validate(draft, t);
+        setErrors(nextErrors);
+        const invalid = FIELDS.find(({key}) => !!nextErrors[key]);
+        if(invalid) {
+            // Take keyboard and screen reader users straight to the first problem
+            inputs.current[invalid.key].focus();
+            return;
+        }
+
+        setSaving(true);
+        updateProfile(draft).then(() => {
+            setBanner({kind: 'success', message: t('account.updated')});
+            navigate('/account');
+        }).catch((error: ApiError) => {
+            if(error.code === 'PRECONDITION_FAILED') {
+                setConflict(true);
+                setBanner({kind: 'error', message: t('account.conflict')});
+            } else {
+                setBanner({kind: 'error', message: t('account.updateFailed', {reason: describeError(error, t)})});
+            }
+        }).then(() => {
+            setSaving(false);
+        });
+    }
 
     return(<AccountContainer>
-        <Row>
-            <div>Name</div>
-            <div>{user.name}</div>
-        </Row>
-        <Row>
-            <div>Favourite Fruit</div>
-            <div>{user.favouriteFruit}</div>
-        </Row>
-        <Row>
-            <div>Favourite Movie</div>
-            <div>{user.favouriteMovie}</div>
-        </Row>
-        <Row>
-            <div>Favourite Number</div>
-            <div>{user.favouriteNumber}</div>
-        </Row>
-        <Button onClick={()=>{logout()}}>LOGOUT</Button>
+        <Announcements role="status" aria-live="polite">
+            {banner && <Banner kind={banner.kind}>{banner.message}</Banner>}
+        </Announcements>
+        <Details>
+            {FIELDS.map(({key, label}) => (
+                <Row key={key}>
+                    <dt>{draft ? <label htmlFor={`account-${key}`}>{t(label)}</label> : t(label)}</dt>
+                    <Description>
+                        {draft ?
+                            <Field>
+                                <Input
+                                    id={`account-${key}`}
+                                    name={key}
+                                    ref={(input: HTMLInputElement) => {inputs.current[key] = input}}
+                                    aria-invalid={!!errors[key]}
+                                    aria-describedby={errors[key] ? `account-${key}-error` : undefined}
+                                    value={draft[key] == null ? '' : draft[key]}
+                                    onChange={(e: any) => {setDraft({...draft, [key]: e.target.value})}}
+                                />
+                                {errors[key] && <FieldError id={`account-${key}-error`}>{errors[key]}</FieldError>}
+                            </Field>
+                            :
+                            displayValue(key)
+                        }
+                    </Description>
+                </Row>
+            ))}
+        </Details>
+        {draft ?
+            <Buttons>
+                {conflict ?
+                    <Button disabled={saving} onClick={reloadLatest}>{t('account.reloadLatest')}</Button>
+                    :
+                    <Button disabled={saving} onClick={save}>{t('common.save')}</Button>
+                }
+                <Button disabled={saving} onClick={cancelEditing}>{t('common.cancel')}</Button>
+            </Buttons>
+            :
+            <Button onClick={startEditing}>{t('common.edit')}</Button>
+        }
+        {changingPassword ?
+            <ChangePassword onClose={finishChangingPassword}/>
+            :
+            <Button onClick={startChangingPassword}>{t('account.changePassword')}</Button>
+        }
+        {managingTwoFactor ?
+            <TwoFactor onClose={finishManagingTwoFactor}/>
+            :
+            <Button onClick={startManagingTwoFactor}>{user.twoFactorEnabled ? t('account.turnOffTwoFactor') : t('account.setUpTwoFactor')}</Button>
+        }
+        {user.role === 'admin' && <Button onClick={() => navigate('/admin')}>{t('account.admin')}</Button>}
+        <Button onClick={()=>{logout()}}>{t('account.logout')}</Button>
+        {sessionExpiresAt && <Row>{t('account.sessionExpires', {time: formatDate(sessionExpiresAt)})}</Row>}
 
     </AccountContainer>)
 }
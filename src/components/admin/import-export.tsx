@@ -0,0 +1,167 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import BaseButton from '../button';
+import {AuthContext, ApiError, unwrap} from '../../contexts/auth';
+import {ImportReport, ImportRequest} from '../../api/client';
+import {I18nContext} from '../../contexts/i18n';
+import {MessageKey} from '../../locales/types';
+import {describeError} from '../../locales/errors';
+
+type ImportExportProps = {
+    // Called after an import wrote something, so the list can reload
+    onImported: () => void,
+}
+
+type Format = ImportRequest['format'];
+
+type ConflictPolicy = ImportRequest['onConflict'];
+
+const POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'fail'];
+
+const MIME_TYPES: Record<Format, string> = {
+    csv: 'text/csv',
+    json: 'application/json',
+};
+
+// Files are told apart by their extension; anything that is not .json is read as CSV
+const formatOf = (file: File): Format => /\.json$/i.test(file.name) ? 'json' : 'csv';
+
+const readFile = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+});
+
+// Hands the text to the browser as a file download
+const download = (filename: string, text: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], {type}));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+const Panel = styled.section`
+    width: 90%;
+    margin-top: 20px;
+    padding-top: 10px;
+    border-top: solid 1px ${props => props.theme.colors.primary};
+`;
+
+const Row = styled.div`
+    display: flex;
+    margin-top: 10px;
+    justify-content: space-between;
+    align-items: center;
+`;
+
+const Select = styled.select`
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+`;
+
+const Button = styled(BaseButton)`
+    margin-top: 10px;
+    width: auto;
+    min-width: 25%;
+    font-size: 1em;
+`;
+
+// Always rendered so screen readers are already watching it when a message appears
+const Status = styled.div`
+    margin-top: 10px;
+    :empty {
+        margin-top: 0;
+    }
+`;
+
+const Problems = styled.ul`
+    margin: 5px 0 0;
+    color: ${props => props.theme.colors.error};
+`;
+
+export default ({onImported}: ImportExportProps) => {
+    const {client} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const [file, setFile] = useState<File | null>(null);
+    const [onConflict, setOnConflict] = useState<ConflictPolicy>('fail');
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState('');
+    const [problems, setProblems] = useState<string[]>([]);
+
+    const exportAs = (format: Format) => {
+        client.exportUsers({query: {format}}).then(unwrap).then(({body}) => {
+            download(`users.${format}`, typeof body === 'string' ? body : JSON.stringify(body, null, 2), MIME_TYPES[format]);
+        }).catch((error: ApiError) => setStatus(t('admin.export.failed', {reason: describeError(error, t)})));
+    }
+
+    const showReport = (report: ImportReport) => {
+        const {created, updated, skipped, conflicts, invalid} = report;
+        setStatus(t(report.dryRun ? 'admin.import.checked' : 'admin.import.done', {created, updated, skipped, conflicts, invalid}));
+        setProblems(report.rows.reduce((all: string[], {row, problems: rowProblems}) => all.concat(
+            rowProblems.map(({message}) => t('admin.import.row', {row, message}))
+        ), []));
+    }
+
+    const runImport = (dryRun: boolean) => {
+        if(!file) {
+            setStatus(t('admin.import.noFile'));
+            return;
+        }
+        setBusy(true);
+        setProblems([]);
+        readFile(file)
+            .then(content => client.importUsers({body: {format: formatOf(file), content, onConflict, dryRun}}))
+            .then(unwrap)
+            .then(({body}) => {
+                showReport(body);
+                if(!dryRun) onImported();
+            })
+            .catch((error: ApiError) => {
+                setStatus(t('admin.import.failed', {reason: describeError(error, t)}));
+                setProblems((error.details || []).map(detail => detail.message));
+            })
+            .then(() => setBusy(false));
+    }
+
+    return(<Panel aria-labelledby="import-export-title">
+        <Row>
+            <Button onClick={() => exportAs('csv')}>{t('admin.export.csv')}</Button>
+            <Button onClick={() => exportAs('json')}>{t('admin.export.json')}</Button>
+        </Row>
+        <h3 id="import-export-title">{t('admin.import.title')}</h3>
+        <Row>
+            <label htmlFor="import-file">{t('admin.import.file')}</label>
+            <input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    setFile(e.target.files && e.target.files[0] || null);
+                    setStatus('');
+                    setProblems([]);
+                }}
+            />
+        </Row>
+        <Row>
+            <label htmlFor="import-on-conflict">{t('admin.import.onConflict')}</label>
+            <Select id="import-on-conflict" value={onConflict} onChange={(e: any) => setOnConflict(e.target.value)}>
+                {POLICIES.map(policy => <option key={policy} value={policy}>{t(`admin.import.policy.${policy}` as MessageKey)}</option>)}
+            </Select>
+        </Row>
+        <Row>
+            <Button disabled={busy} onClick={() => runImport(true)}>{t('admin.import.check')}</Button>
+            <Button disabled={busy} onClick={() => runImport(false)}>{t('admin.import.submit')}</Button>
+        </Row>
+        <Status role="status">{status}</Status>
+        {problems.length > 0 && <Problems>{problems.map((problem, index) => <li key={index}>{problem}</li>)}</Problems>}
+    </Panel>)
+}
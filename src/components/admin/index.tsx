@@ -0,0 +1,316 @@
+import React, {useContext, useEffect, useState} from 'react';
+import styled from 'styled-components';
+import BaseButton from '../button';
+import {AuthContext, User, Profile, Role, ApiError, unwrap} from '../../contexts/auth';
+import {UserPage} from '../../api/client';
+import {I18nContext} from '../../contexts/i18n';
+import {RouterContext} from '../../contexts/router';
+import {MessageKey} from '../../locales/types';
+import {describeError} from '../../locales/errors';
+import ImportExport from './import-export';
+
+type AccountDraft = Profile & {
+    role: Role,
+}
+
+type BannerState = {
+    kind: 'success' | 'error',
+    message: string,
+}
+
+// The fields GET /users can sort and filter by
+type Column = Exclude<keyof User, 'twoFactorEnabled' | 'theme' | 'version'>;
+
+const PAGE_SIZE = 10;
+
+const COLUMNS: {key: Column, label: MessageKey}[] = [
+    {key: 'username', label: 'fields.username'},
+    {key: 'name', label: 'fields.name'},
+    {key: 'role', label: 'fields.role'},
+    {key: 'favouriteFruit', label: 'admin.column.fruit'},
+    {key: 'favouriteMovie', label: 'admin.column.movie'},
+    {key: 'favouriteNumber', label: 'admin.column.number'},
+];
+
+const PROFILE_FIELDS: {key: keyof Profile, label: MessageKey}[] = [
+    {key: 'name', label: 'fields.name'},
+    {key: 'favouriteFruit', label: 'fields.favouriteFruit'},
+    {key: 'favouriteMovie', label: 'fields.favouriteMovie'},
+    {key: 'favouriteNumber', label: 'fields.favouriteNumber'},
+];
+
+const ROLES: Role[] = ['user', 'admin'];
+
+const AdminContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
+    width: 60%;
+    min-height: 85%;
+    margin-bottom:5%;
+`;
+
+const Toolbar = styled.div`
+    display: flex;
+    width: 90%;
+    margin-top: 20px;
+    justify-content: space-between;
+    align-items: center;
+`;
+
+const Input = styled.input`
+    width: 60%;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const Select = styled.select`
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+`;
+
+const Table = styled.table`
+    width: 90%;
+    margin-top: 20px;
+    border-collapse: collapse;
+    th {
+        color: ${props => props.theme.colors.link};
+        cursor: pointer;
+        text-align: left;
+    }
+    td, th {
+        padding: 5px;
+        border-bottom: solid 1px ${props => props.theme.colors.primary};
+    }
+    tbody tr {
+        cursor: pointer;
+    }
+    tbody tr:hover {
+        background-color: ${props => props.theme.colors.highlight};
+    }
+`;
+
+const Row = styled.div`
+    display: flex;
+    width: 90%;
+    margin-top: 20px;
+    justify-content: space-between;
+    align-items: center;
+`;
+
+const Banner = styled.div<{kind: BannerState['kind']}>`
+    width: 90%;
+    margin-top: 20px;
+    padding: 10px;
+    border-radius: 15px;
+    text-align: center;
+    color: ${props => props.theme.colors.onPrimary};
+    background-color: ${props => props.kind === 'success' ? props.theme.colors.link : props.theme.colors.error};
+`;
+
+const Buttons = styled.div`
+    display: flex;
+    justify-content: center;
+    width: 90%;
+`;
+
+const Button = styled(BaseButton)`
+    width: auto;
+    min-width: 25%;
+    font-size: 1.2em;
+`;
+
+export default () => {
+    const {client} = useContext(AuthContext);
+    const {t, formatNumber} = useContext(I18nContext);
+    const {navigate} = useContext(RouterContext);
+    const [search, setSearch] = useState('');
+    const [sort, setSort] = useState<Column>('username');
+    const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+    const [page, setPage] = useState(1);
+    const [users, setUsers] = useState<UserPage | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const [selected, setSelected] = useState<User | null>(null);
+    const [draft, setDraft] = useState<AccountDraft | null>(null);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [banner, setBanner] = useState<BannerState | null>(null);
+
+    useEffect(() => {
+        client.listUsers({query: {q: search, sort, order, page, pageSize: PAGE_SIZE}}).then(unwrap).then(({body}) => setUsers(body)).catch((error: ApiError) => {
+            setBanner({kind: 'error', message: t('admin.loadFailed', {reason: describeError(error, t)})});
+        });
+    }, [search, sort, order, page, reloads]);
+
+    const sortBy = (key: Column) => {
+        if(key === sort) setOrder(order === 'asc' ? 'desc' : 'asc');
+        else {
+            setSort(key);
+            setOrder('asc');
+        }
+    }
+
+    const open = (user: User) => {
+        const {username, twoFactorEnabled, theme, version, ...profile} = user;
+        setSelected(user);
+        setDraft(profile);
+        setConfirmingDelete(false);
+        setBanner(null);
+    }
+
+    const close = () => {
+        setSelected(null);
+        setDraft(null);
+        setConfirmingDelete(false);
+    }
+
+    const finish = (message: string) => () => {
+        close();
+        setBanner({kind: 'success', message});
+        setReloads(reloads + 1);
+    }
+
+    const fail = (message: string) => (error: ApiError) => {
+        if(error.code === 'PRECONDITION_FAILED') {
+            close();
+            setReloads(reloads + 1);
+            setBanner({kind: 'error', message: t('admin.conflict', {message})});
+            return;
+        }
+        const [detail] = error.details || [];
+        setBanner({kind: 'error', message: t('common.errorWithReason', {message, reason: detail ? detail.message : describeError(error, t)})});
+    }
+
+    const {username} = selected || {username: ''};
+
+    const save = () => {
+        client.updateUser({
+            query: {username: selected.username},
+            headers: {'If-Match': `"${selected.version}"`},
+            body: draft,
+        }).then(unwrap).then(finish(t('admin.updated', {username}))).catch(fail(t('admin.updateFailed', {username})));
+    }
+
+    const remove = () => {
+        client.deleteUser({
+            query: {username: selected.username},
+            headers: {'If-Match': `"${selected.version}"`},
+        }).then(unwrap).then(finish(t('admin.deleted', {username}))).catch(fail(t('admin.deleteFailed', {username})));
+    }
+
+    // For users who lost their authenticator app and their recovery codes
+    const disableTwoFactor = () => {
+        client.disableTwoFactor({query: {username: selected.username}}).then(unwrap).then(finish(t('admin.twoFactorOff', {username}))).catch(fail(t('admin.twoFactorOffFailed', {username})));
+    }
+
+    const cell = (user: User, key: keyof User) => {
+        if(key === 'role') return t(`roles.${user.role}` as MessageKey);
+        const value = user[key];
+        if(key === 'favouriteNumber' && String(value).trim() !== '' && !isNaN(Number(value))) return formatNumber(Number(value));
+        return value;
+    }
+
+    const pages = users ? Math.max(Math.ceil(users.total / users.pageSize), 1) : 1;
+
+    return(<AdminContainer>
+        {banner && <Banner kind={banner.kind}>{banner.message}</Banner>}
+        {selected ?
+            <>
+                <Row>
+                    <div>{t('fields.username')}</div>
+                    <div>{selected.username}</div>
+                </Row>
+                {PROFILE_FIELDS.map(({key, label}) => (
+                    <Row key={key}>
+                        <div>{t(label)}</div>
+                        <Input
+                            name={key}
+                            value={draft[key] == null ? '' : draft[key]}
+                            onChange={(e: any) => {setDraft({...draft, [key]: e.target.value})}}
+                        />
+                    </Row>
+                ))}
+                <Row>
+                    <div>{t('fields.role')}</div>
+                    <Select
+                        name="role"
+                        value={draft.role}
+                        onChange={(e: any) => {setDraft({...draft, role: e.target.value})}}
+                    >
+                        {ROLES.map(role => <option key={role} value={role}>{t(`roles.${role}` as MessageKey)}</option>)}
+                    </Select>
+                </Row>
+                {confirmingDelete ?
+                    <>
+                        <Row>{t('admin.deletePrompt', {username})}</Row>
+                        <Buttons>
+                            <Button onClick={remove}>{t('admin.confirmDelete')}</Button>
+                            <Button onClick={() => setConfirmingDelete(false)}>{t('common.cancel')}</Button>
+                        </Buttons>
+                    </>
+                    :
+                    <Buttons>
+                        <Button onClick={save}>{t('common.save')}</Button>
+                        <Button onClick={() => setConfirmingDelete(true)}>{t('admin.delete')}</Button>
+                        {selected.twoFactorEnabled && <Button onClick={disableTwoFactor}>{t('admin.turnOffTwoFactor')}</Button>}
+                        <Button onClick={close}>{t('common.close')}</Button>
+                    </Buttons>
+                }
+            </>
+            :
+            <>
+                <Toolbar>
+                    <Input
+                        placeholder={t('admin.search')}
+                        value={search}
+                        onChange={(e: any) => {
+                            setSearch(e.target.value);
+                            setPage(1);
+                        }}
+                    />
+                    <div>{users ? t('admin.total', {count: users.total}) : ''}</div>
+                </Toolbar>
+                <Table>
+                    <thead>
+                        <tr>
+                            {COLUMNS.map(({key, label}) => (
+                                <th key={key} onClick={() => sortBy(key)}>
+                                    {t(label)}{key === sort ? (order === 'asc' ? ' ▲' : ' ▼') : ''}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {users && users.items.map(user => (
+                            <tr key={user.username} onClick={() => open(user)}>
+                                {COLUMNS.map(({key}) => <td key={key}>{cell(user, key)}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </Table>
+                <Buttons>
+                    <Button disabled={page <= 1} onClick={() => setPage(page - 1)}>{t('admin.previous')}</Button>
+                    <Row style={{width: 'auto', margin: '20px 20px 0'}}>{t('admin.page', {page, pages})}</Row>
+                    <Button disabled={page >= pages} onClick={() => setPage(page + 1)}>{t('admin.next')}</Button>
+                </Buttons>
+                <ImportExport onImported={() => setReloads(reloads + 1)}/>
+            </>
+        }
+        <Button onClick={() => navigate('/account')}>{t('common.back')}</Button>
+    </AdminContainer>)
+}
@@ -1,9 +1,14 @@
 import styled, { createGlobalStyle } from 'styled-components';
-import React, {useState, useContext} from 'react';
+import React, {useContext, useEffect} from 'react';
 import Header from '../header';
 import Account from '../account';
 import Login from '../login';
-import { AuthContext } from '../../contexts/auth';
+import Register from '../register';
+import ForgotPassword from '../forgot-password';
+import Admin from '../admin';
+import NotFound from '../not-found';
+import { AuthContext, User } from '../../contexts/auth';
+import { RouterContext, isLocalPath } from '../../contexts/router';
 import backgroundImage from '../../assets/bg1.jpg'
 const StyledDiv = styled.div`
     display: flex;
@@ -18,6 +23,7 @@ const GlobalBackground = createGlobalStyle`
     body,html {
         padding: 0px;
         margin: 0px;
+        background-color: ${props => props.theme.colors.page};
     }
 
     .background {
@@ -29,28 +35,66 @@ const GlobalBackground = createGlobalStyle`
         background-image: url(${backgroundImage});
         background-position: center;
         background-size: cover;
-        opacity: 0.45;
+        opacity: ${props => props.theme.backgroundOpacity};
         z-index: -1;
     }
 `;
 
-export default () => {
-    const {user} = useContext(AuthContext)
-    if(user) {
-        return(
-            <StyledDiv>
-                <GlobalBackground/>
-                <Header/>
-                <Account/>
-            </StyledDiv>
-        )
-    } else {
-        return(
-            <StyledDiv>
-                <GlobalBackground/>
-                <Header/>
-                <Login/>
-            </StyledDiv>
-        )
+// Who may see a page: "anonymous" pages send logged-in users on to where they were heading
+type Guard = 'anonymous' | 'user' | 'admin';
+
+type Route = {
+    path: string,
+    guard: Guard,
+    render: () => React.ReactElement,
+}
+
+const ROUTES: Route[] = [
+    {path: '/login', guard: 'anonymous', render: () => <Login/>},
+    {path: '/register', guard: 'anonymous', render: () => <Register/>},
+    {path: '/forgot-password', guard: 'anonymous', render: () => <ForgotPassword/>},
+    {path: '/account', guard: 'user', render: () => <Account editing={false}/>},
+    {path: '/account/edit', guard: 'user', render: () => <Account editing={true}/>},
+    {path: '/admin', guard: 'admin', render: () => <Admin/>},
+];
+
+const HOME = '/account';
+
+// Where to send someone who may not see the page they asked for, or null when they may
+const redirectFor = (guard: Guard, user: User | undefined, location: {path: string, search: string, query: URLSearchParams}) => {
+    if(guard === 'anonymous') {
+        if(!user) return null;
+        const returnTo = location.query.get('returnTo');
+        return returnTo && isLocalPath(returnTo) ? returnTo : HOME;
     }
+    if(!user) return `/login?${new URLSearchParams({returnTo: location.path + location.search})}`;
+    if(guard === 'admin' && user.role !== 'admin') return HOME;
+    return null;
+}
+
+export default () => {
+    const {user, restoring} = useContext(AuthContext)
+    const location = useContext(RouterContext);
+
+    const route = ROUTES.find(({path}) => path === location.path);
+    const redirect = location.path === '/' ? HOME : route && redirectFor(route.guard, user, location);
+
+    // Wait for a stored session to be checked before deciding anyone is logged out
+    useEffect(() => {
+        if(!restoring && redirect) location.navigate(redirect, {replace: true});
+    }, [restoring, redirect]);
+
+    return(
+        <StyledDiv>
+            <GlobalBackground/>
+            <Header/>
+            {restoring || redirect ?
+                null
+                : route ?
+                route.render()
+                :
+                <NotFound/>
+            }
+        </StyledDiv>
+    )
 }
@@ -0,0 +1,28 @@
+import styled from 'styled-components';
+
+// The themed button every screen uses, with a visible focus outline for keyboard users. Screens that
+// lay their buttons out differently extend it with styled(Button) and change only the spacing and size.
+const Button = styled.button`
+    background-color: ${props => props.theme.colors.primary};
+    border: none;
+    margin-top: 20px;
+    border-radius: 15px;
+    width: 50%;
+    font-family: ${props => props.theme.font};
+    font-size: 1.5em;
+    font-weight: light;
+    color: ${props => props.theme.colors.onPrimary};
+    transition: background-color 0.1s ease-in;
+    :focus-visible {
+        outline: 3px solid ${props => props.theme.colors.accent};
+        outline-offset: 2px;
+    }
+    :active {
+        background-color: ${props => props.theme.colors.accent};
+    }
+    :disabled {
+        opacity: 0.6;
+    }
+`;
+
+export default Button;
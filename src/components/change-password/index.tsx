@@ -0,0 +1,223 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import Button from '../button';
+import {AuthContext, ApiError} from '../../contexts/auth';
+import {PasswordPolicy} from '../../api/client';
+import {I18nContext, MessageParams} from '../../contexts/i18n';
+import {MessageKey} from '../../locales/types';
+import {describeError} from '../../locales/errors';
+import {CHARACTER_CLASSES, CharacterClassName} from '../../../shared/account';
+import {usePasswordPolicy, ruleChecks} from './policy';
+
+type ChangePasswordProps = {
+    onClose: (changed: boolean) => void,
+}
+
+type PasswordForm = {
+    currentPassword: string,
+    newPassword: string,
+    confirmPassword: string,
+}
+
+type FormErrors = Partial<Record<keyof PasswordForm, string[]>>;
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const STRENGTH_LABELS: MessageKey[] = ['password.strength.0', 'password.strength.1', 'password.strength.2', 'password.strength.3', 'password.strength.4'];
+
+const FIELDS: {key: keyof PasswordForm, label: MessageKey}[] = [
+    {key: 'currentPassword', label: 'fields.currentPassword'},
+    {key: 'newPassword', label: 'fields.newPassword'},
+    {key: 'confirmPassword', label: 'fields.confirmPassword'},
+];
+
+const EMPTY_FORM: PasswordForm = {
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+};
+
+// Scores 0-4: one point per character class used, one for meeting the minimum length
+// and one for going well past it, capped at the number of labels
+const strengthOf = (password: string, policy: PasswordPolicy) => {
+    if(!password) return 0;
+    const classes = Object.keys(CHARACTER_CLASSES).filter(name => CHARACTER_CLASSES[name as CharacterClassName].pattern.test(password)).length;
+    const length = (password.length >= policy.minLength ? 1 : 0) + (password.length >= policy.minLength + 4 ? 1 : 0);
+    return Math.min(Math.max(classes + length - 2, 0), STRENGTH_LABELS.length - 1);
+}
+
+const validate = (form: PasswordForm, policy: PasswordPolicy, t: Translate) => {
+    const errors: FormErrors = {};
+    FIELDS.forEach(({key, label}) => {
+        if(!form[key]) errors[key] = [t('validation.required', {field: t(label)})];
+    });
+    if(!errors.newPassword) {
+        const broken = ruleChecks(form.newPassword, policy, t).filter(rule => !rule.met);
+        if(broken.length) errors.newPassword = broken.map(rule => t('password.missing', {rule: rule.label}));
+    }
+    if(!errors.confirmPassword && form.confirmPassword !== form.newPassword) {
+        errors.confirmPassword = [t('validation.passwordsDiffer')];
+    }
+    return errors;
+}
+
+// Groups the server's VALIDATION_FAILED details by the field they belong to
+const toFormErrors = (error: ApiError): FormErrors => {
+    const errors: FormErrors = {};
+    (error.details || []).forEach(({field, message}) => {
+        const key = field as keyof PasswordForm;
+        errors[key] = [...(errors[key] || []), message];
+    });
+    return errors;
+}
+
+const Panel = styled.form`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    width: 100%;
+`;
+
+const Row = styled.div`
+    display: flex;
+    width: 90%;
+    margin-top: 20px;
+    justify-content: space-between;
+    align-items: center;
+`;
+
+const Field = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    width: 55%;
+`;
+
+const Input = styled.input`
+    width: 100%;
+    text-align: right;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const FieldError = styled.div`
+    color: ${props => props.theme.colors.error};
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+const Meter = styled.div`
+    display: flex;
+    width: 100%;
+    margin-top: 5px;
+`;
+
+const MeterSegment = styled.div<{filled: boolean}>`
+    flex: 1;
+    height: 6px;
+    margin-left: 3px;
+    border-radius: 3px;
+    background-color: ${props => props.filled ? props.theme.colors.primary : props.theme.colors.highlight};
+`;
+
+const StrengthLabel = styled.div`
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+const Rules = styled.ul`
+    width: 90%;
+    margin: 10px 0 0;
+    padding-left: 20px;
+    font-size: 0.8em;
+`;
+
+const Rule = styled.li<{met: boolean}>`
+    color: ${props => props.met ? props.theme.colors.link : props.theme.colors.error};
+`;
+
+const Buttons = styled.div`
+    display: flex;
+    justify-content: center;
+    width: 90%;
+`;
+
+export default ({onClose}: ChangePasswordProps) => {
+    const {changePassword} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const policy = usePasswordPolicy();
+    const [form, setForm] = useState<PasswordForm>(EMPTY_FORM);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [formError, setFormError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const nextErrors = validate(form, policy, t);
+        setErrors(nextErrors);
+        setFormError(null);
+        if(Object.keys(nextErrors).length) return;
+
+        setSaving(true);
+        changePassword(form.currentPassword, form.newPassword).then(() => {
+            onClose(true);
+        }).catch((error: ApiError) => {
+            const serverErrors = toFormErrors(error);
+            setErrors(serverErrors);
+            if(!Object.keys(serverErrors).length) setFormError(t('password.changeFailed', {reason: describeError(error, t)}));
+            setSaving(false);
+        });
+    }
+
+    const strength = strengthOf(form.newPassword, policy);
+
+    return(<Panel onSubmit={submit} noValidate>
+        {FIELDS.map(({key, label}) => (
+            <Row key={key}>
+                <label htmlFor={`password-${key}`}>{t(label)}</label>
+                <Field>
+                    <Input
+                        id={`password-${key}`}
+                        name={key}
+                        aria-invalid={!!errors[key]}
+                        aria-describedby={errors[key] ? `password-${key}-error` : undefined}
+                        type="password"
+                        value={form[key]}
+                        onChange={(e: any) => {setForm({...form, [key]: e.target.value})}}
+                    />
+                    {key === 'newPassword' && form.newPassword &&
+                        <>
+                            <Meter title={t(STRENGTH_LABELS[strength])} aria-hidden="true">
+                                {STRENGTH_LABELS.map((label, index) => <MeterSegment key={label} filled={index <= strength}/>)}
+                            </Meter>
+                            <StrengthLabel>{t(STRENGTH_LABELS[strength])}</StrengthLabel>
+                        </>
+                    }
+                    {errors[key] &&
+                        <div id={`password-${key}-error`}>
+                            {errors[key].map(message => <FieldError key={message}>{message}</FieldError>)}
+                        </div>
+                    }
+                </Field>
+            </Row>
+        ))}
+        <Rules>
+            {ruleChecks(form.newPassword, policy, t).map(rule => <Rule key={rule.label} met={rule.met}>{rule.label}</Rule>)}
+            {policy.history > 0 && <Rule met={true}>{t('password.rule.history', {count: policy.history})}</Rule>}
+        </Rules>
+        <FieldError role="alert">{formError}</FieldError>
+        <Buttons>
+            <Button type="submit" disabled={saving}>{t('password.submit')}</Button>
+            <Button type="button" disabled={saving} onClick={() => onClose(false)}>{t('common.cancel')}</Button>
+        </Buttons>
+    </Panel>)
+}
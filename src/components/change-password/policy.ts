@@ -0,0 +1,39 @@
+import {useContext, useEffect, useState} from 'react';
+import {AuthContext, unwrap} from '../../contexts/auth';
+import {PasswordPolicy} from '../../api/client';
+import {MessageParams} from '../../contexts/i18n';
+import {MessageKey} from '../../locales/types';
+import {CHARACTER_CLASSES, DEFAULT_PASSWORD_POLICY, passwordRules} from '../../../shared/account';
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Used until GET /password-policy answers
+const DEFAULT_POLICY: PasswordPolicy = {
+    ...DEFAULT_PASSWORD_POLICY,
+    requiredClasses: DEFAULT_PASSWORD_POLICY.requiredClasses.map(name => ({name, description: CHARACTER_CLASSES[name].description})),
+};
+
+// The API's password policy, so forms can check new passwords the way the API will
+export const usePasswordPolicy = () => {
+    const {client} = useContext(AuthContext);
+    const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_POLICY);
+
+    useEffect(() => {
+        client.getPasswordPolicy().then(unwrap).then(({body}) => setPolicy(body)).catch(() => {
+            // The defaults still give useful hints; the server has the final say
+        });
+    }, []);
+
+    return policy;
+}
+
+// The policy's length and character class rules, worded in the current language, with whether the password meets each
+export const ruleChecks = (password: string, policy: PasswordPolicy, t: Translate) => passwordRules({
+    minLength: policy.minLength,
+    requiredClasses: policy.requiredClasses.map(({name}) => name),
+}, password).map(rule => ({
+    label: rule.code === 'minLength'
+        ? t('password.rule.minLength', {min: rule.limit})
+        : t('password.rule.contains', {description: t(`password.class.${rule.characterClass}` as MessageKey)}),
+    met: rule.met,
+}));
@@ -0,0 +1,200 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import BaseButton from '../button';
+import {AuthContext, ApiError, unwrap} from '../../contexts/auth';
+import {RecoveryChallenge} from '../../api/client';
+import {I18nContext} from '../../contexts/i18n';
+import {RouterContext} from '../../contexts/router';
+import {MessageKey} from '../../locales/types';
+import {describeError} from '../../locales/errors';
+
+// username -> answer the questions -> choose a new password -> done
+type Step = 'username' | 'questions' | 'password' | 'done';
+
+const RecoveryContainer = styled.form`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
+    width: 40%;
+    min-height: 85%;
+`;
+
+const Field = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    width: 90%;
+    margin-bottom: 10px;
+`;
+
+const Input = styled.input`
+    width: 100%;
+    text-align: center;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const ErrorMessage = styled.div`
+    color: ${props => props.theme.colors.error};
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+const Button = styled(BaseButton)`
+    margin-top: 5px;
+    margin-bottom: 20px;
+`;
+
+const Link = styled.a`
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    text-decoration: underline;
+`;
+
+const SUBMIT_LABELS: Record<Exclude<Step, 'done'>, MessageKey> = {
+    username: 'recovery.continue',
+    questions: 'recovery.verify',
+    password: 'recovery.reset',
+};
+
+export default () => {
+    const {client} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const {navigate, link} = useContext(RouterContext);
+    const [step, setStep] = useState<Step>('username');
+    const [username, setUsername] = useState('');
+    const [challenge, setChallenge] = useState<RecoveryChallenge | null>(null);
+    const [answers, setAnswers] = useState<Record<string, string>>({});
+    const [resetToken, setResetToken] = useState<string | null>(null);
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    // The API words its questions in English; known fields are asked in the current language
+    const translateQuestion = (field: string, question: string) => {
+        const key = `recovery.question.${field}` as MessageKey;
+        const translated = t(key);
+        return translated === key ? question : translated;
+    }
+
+    const showError = (error: ApiError) => {
+        const details = (error.details || []).map(detail => detail.message);
+        setErrors(details.length ? details : [describeError(error, t)]);
+    }
+
+    // Problems caught before calling the API are shown the same way as the API's own field problems
+    const invalid = (message: string) => Promise.reject({code: 'VALIDATION_FAILED', message, details: [{field: step, message}]});
+
+    const requestChallenge = () => {
+        if(!username.trim()) return invalid(t('validation.required', {field: t('fields.username')}));
+
+        return client.startPasswordReset({body: {username: username.trim()}}).then(unwrap).then(({body}) => {
+            setChallenge(body);
+            setAnswers({});
+            setStep('questions');
+        });
+    }
+
+    // The API answers every wrong attempt the same way, so there is no per-question error to show
+    const verifyAnswers = () => {
+        if(challenge.questions.some(({field}) => !(answers[field] || '').trim())) return invalid(t('recovery.answerAll'));
+
+        return client.verifyPasswordReset({body: {challengeId: challenge.challengeId, answers}}).then(unwrap).then(({body}) => {
+            setResetToken(body.resetToken);
+            setStep('password');
+        });
+    }
+
+    const resetPassword = () => {
+        if(!newPassword) return invalid(t('validation.required', {field: t('fields.newPassword')}));
+        if(newPassword !== confirmPassword) return invalid(t('validation.passwordsDiffer'));
+
+        return client.resetPassword({body: {resetToken, newPassword}}).then(unwrap).then(() => {
+            setStep('done');
+        });
+    }
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if(step === 'done') return;
+        setErrors([]);
+        const action = {username: requestChallenge, questions: verifyAnswers, password: resetPassword}[step];
+
+        setSubmitting(true);
+        action().catch(showError).then(() => {
+            setSubmitting(false);
+        });
+    }
+
+    return(
+    <RecoveryContainer onSubmit={submit} noValidate>
+        {step === 'username' &&
+            <Field>
+                <Input
+                    name="username"
+                    placeholder={t('fields.username')}
+                    value={username}
+                    onChange={(e: any) => {setUsername(e.target.value)}}
+                />
+            </Field>
+        }
+        {step === 'questions' && challenge.questions.map(({field, question}) => (
+            <Field key={field}>
+                <div>{translateQuestion(field, question)}</div>
+                <Input
+                    name={field}
+                    value={answers[field] || ''}
+                    onChange={(e: any) => {setAnswers({...answers, [field]: e.target.value})}}
+                />
+            </Field>
+        ))}
+        {step === 'password' &&
+            <>
+                <Field>
+                    <Input
+                        name="newPassword"
+                        type="password"
+                        placeholder={t('fields.newPassword')}
+                        value={newPassword}
+                        onChange={(e: any) => {setNewPassword(e.target.value)}}
+                    />
+                </Field>
+                <Field>
+                    <Input
+                        name="confirmPassword"
+                        type="password"
+                        placeholder={t('fields.confirmPassword')}
+                        value={confirmPassword}
+                        onChange={(e: any) => {setConfirmPassword(e.target.value)}}
+                    />
+                </Field>
+            </>
+        }
+        {step === 'done' && <Field>{t('recovery.done')}</Field>}
+        {errors.map(message => <ErrorMessage key={message}>{message}</ErrorMessage>)}
+        {step === 'done' ?
+            <Button type="button" onClick={() => navigate('/login')}>{t('recovery.logIn')}</Button>
+            :
+            <>
+                <Button type="submit" disabled={submitting}>
+                    {t(SUBMIT_LABELS[step])}
+                </Button>
+                <div>{t('recovery.remembered')} <Link {...link('/login')}>{t('common.logIn')}</Link></div>
+            </>
+        }
+    </RecoveryContainer>)
+}
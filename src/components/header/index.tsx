@@ -1,40 +1,83 @@
-import React, {useState, useContext} from 'react';
+import React, {useContext} from 'react';
 import {AuthContext} from '../../contexts/auth';
-import styled from 'styled-components';
+import {I18nContext} from '../../contexts/i18n';
+import {ThemeContext} from '../../contexts/theme';
+import {MessageKey} from '../../locales/types';
+import styled, {css} from 'styled-components';
 
-const HeaderContainer: React.FC = styled.div`
+const HeaderContainer: React.FC = styled.header`
+    position: relative;
     display: flex;
     justify-content: center;
     align-items: center;
-    background-color: #F2F2F2;
-    color: #048ABF;
+    background-color: ${props => props.theme.colors.header};
+    color: ${props => props.theme.colors.primary};
     border-top-left-radius: 10px;
     border-top-right-radius: 10px;
-    font-family: 'Courier New', Courier, monospace;
+    font-family: ${props => props.theme.font};
     font-size: 2em;
     height: 10%;
     width: 40%;
 `;
 
+const selectStyles = css`
+    position: absolute;
+    font-family: ${props => props.theme.font};
+    font-size: 0.4em;
+    color: ${props => props.theme.colors.link};
+    border: solid 1px ${props => props.theme.colors.primary};
+    border-radius: 10px;
+    background-color: transparent;
+`;
+
+const ThemeSelect = styled.select`
+    ${selectStyles}
+    left: 10px;
+`;
+
+const LocaleSelect = styled.select`
+    ${selectStyles}
+    right: 10px;
+`;
+
+// The empty value stands for following the browser's colour scheme
+const SYSTEM_THEME = '';
+
 interface HeaderProps {
     loggedInUser: string;
 }
 
 export default () => {
 
-    const [siteName, _] = useState("qa.code-quiz.dev");
     const {user} = useContext(AuthContext);
+    const {t, locale, locales, setLocale} = useContext(I18nContext);
+    const {preference, themeNames, setPreference} = useContext(ThemeContext);
 
     return(
         <HeaderContainer>
             <div>
             {
                 user?
-                    `Hello ${user.name}`
+                    t('header.greeting', {name: user.name})
                     :
-                    `${siteName}`
+                    t('header.siteName')
             }
             </div>
+            <ThemeSelect
+                aria-label={t('header.theme')}
+                value={preference || SYSTEM_THEME}
+                onChange={(e: any) => {setPreference(e.target.value || null)}}
+            >
+                <option value={SYSTEM_THEME}>{t('theme.system')}</option>
+                {themeNames.map(name => <option key={name} value={name}>{t(`theme.${name}` as MessageKey)}</option>)}
+            </ThemeSelect>
+            <LocaleSelect
+                aria-label={t('header.language')}
+                value={locale}
+                onChange={(e: any) => {setLocale(e.target.value)}}
+            >
+                {locales.map(({code, name}) => <option key={code} value={code}>{name}</option>)}
+            </LocaleSelect>
         </HeaderContainer>
     )
 }
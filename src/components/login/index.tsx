@@ -1,71 +1,202 @@
-import React, {Dispatch, SetStateAction, useContext} from 'react';
-import styled from 'styled-components';
-import {AuthContext} from '../../contexts/auth';
+import React, {useContext, useEffect, useState} from 'react';
+import styled, {css} from 'styled-components';
+import BaseButton from '../button';
+import ClipLoader from 'react-spinners/ClipLoader';
+import {AuthContext, ApiError} from '../../contexts/auth';
+import {I18nContext} from '../../contexts/i18n';
+import {ThemeContext} from '../../contexts/theme';
+import {RouterContext} from '../../contexts/router';
+import {MessageKey} from '../../locales/types';
+import {describeError} from '../../locales/errors';
+import SecondFactor from './second-factor';
+import {ErrorNotice, formatWait, useLockout} from './lockout';
+import {validateField} from '../../../shared/account';
 
-const LoginContainer = styled.div`
+const LoginContainer = styled.form`
     display: flex;
     flex-direction: column;
     align-items: center;
     justify-content: center;
-    font-family: 'Courier New', Courier, monospace;
-    background-color:  rgba(247, 247,247, 0.4);
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
     width: 40%;
     height: 85%;
 `;
 
-const Input = styled.input`
-    width: 90%;
-    height: 8%;
+const inputStyles = css`
     text-align: center;
     border-radius: 15px;
-    font-family: 'Courier New', Courier, monospace;
-    border: solid 2px #048ABF;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
     padding: 15px;
-    margin-bottom: 20px;
     transition: border-color 0.2s ease-in;
     :focus {
         outline: none;
-        border-color: #F54458;
+        border-color: ${props => props.theme.colors.accent};
     }
 `;
 
-const Button = styled.button`
-    background-color: #048ABF;
+const Label = styled.label`
+    width: 90%;
+    margin-bottom: 5px;
+`;
+
+const Input = styled.input`
+    ${inputStyles}
+    width: 90%;
+    height: 8%;
+    margin-bottom: 20px;
+`;
+
+// Holds the password input and its show/hide toggle, sized like a plain Input
+const PasswordField = styled.div`
+    position: relative;
+    width: 90%;
+    height: 8%;
+    margin-bottom: 20px;
+`;
+
+const PasswordInput = styled.input`
+    ${inputStyles}
+    width: 100%;
+    height: 100%;
+`;
+
+const Toggle = styled.button`
+    position: absolute;
+    top: 50%;
+    right: 0;
+    transform: translateY(-50%);
+    background: none;
     border: none;
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    font-family: ${props => props.theme.font};
+    text-decoration: underline;
+`;
+
+const Button = styled(BaseButton)`
+    display: flex;
+    align-items: center;
+    justify-content: center;
     margin-top: 5px;
-    margin-bottom: 20px
-    border-radius: 15px;
-    width: 50%;
+    margin-bottom: 20px;
     height: 7%;
-    font-family: 'Courier New', Courier, monospace;
-    font-size: 1.5em;
-    font-weight: light;
-    color: white;
-    transition: background-color 0.1s ease-in;
-    outline:none;
-    :active {
-        outline: none;
-        background-color: #F54458;
+    :hover {
+        border-color: ${props => props.theme.colors.hover};
     }
+`;
 
+const Spinner = styled.span`
+    margin-left: 10px;
 `;
 
-type LoginProps = {
-    setLoggedInUser: Dispatch<SetStateAction<string | null>>,
+const Link = styled.a`
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    text-decoration: underline;
+`;
+
+// Only presence is checked here: older accounts may predate the username rules
+const isMissing = (field: 'username' | 'password', value: string) => {
+    const problem = validateField(field, value, {creating: true});
+    return !!problem && problem.code === 'required';
 }
 
+// A missing username and password is one message rather than two
+const validate = (username: string, password: string): MessageKey | null => {
+    const usernameMissing = isMissing('username', username);
+    const passwordMissing = isMissing('password', password);
+    if(usernameMissing && passwordMissing) return 'login.inputMissing';
+    if(usernameMissing) return 'login.usernameRequired';
+    if(passwordMissing) return 'login.passwordRequired';
+    return null;
+}
 
 export default () => {
 
-    const [username, setUsername] = React.useState<string | null>(null);
-    const [password, setPassword] = React.useState<string | null>(null);
-    const {login} = useContext(AuthContext);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [showPassword, setShowPassword] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+    // The lockout message no longer applies once logging in is allowed again
+    const [lockedFor, lockOut] = useLockout(() => setError(null));
+    const {login, secondFactorPending} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const {theme} = useContext(ThemeContext);
+    const {search, link} = useContext(RouterContext);
+
+    // A successful login replaces this component; one waiting for a second factor does not
+    useEffect(() => {
+        if(secondFactorPending) setSubmitting(false);
+    }, [secondFactorPending]);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = validate(username, password);
+        setError(problem && t(problem));
+        if(problem) return;
+
+        setSubmitting(true);
+        login(username.trim(), password).catch((failure: ApiError) => {
+            if(failure.retryAfter) {
+                lockOut(failure.retryAfter);
+                setError(t('common.lockedOut', {time: formatWait(failure.retryAfter)}));
+            }
+            else setError(describeError(failure, t));
+            setSubmitting(false);
+        });
+    }
+
+    if(secondFactorPending) return <SecondFactor/>;
+
+    const invalid = !!error && lockedFor === 0;
 
     return(
-    <LoginContainer>
-        <Input placeholder="Enter Username" onChange={(e: any) => {setUsername(e.target.value)}}/>
-        <Input placeholder="password" onChange={(e: any) => {setPassword(e.target.value)}}/>
-        <Button onClick={() => login(username, password)}>LOGIN</Button>
-        <div>If you do not have an account, contact an admin</div>
+    <LoginContainer onSubmit={submit} noValidate>
+        <Label htmlFor="login-username">{t('fields.username')}</Label>
+        <Input
+            id="login-username"
+            name="username"
+            aria-invalid={invalid}
+            aria-describedby="login-error"
+            placeholder={t('login.usernamePlaceholder')}
+            autoComplete="username"
+            value={username}
+            onChange={(e: any) => {setUsername(e.target.value)}}
+        />
+        <Label htmlFor="login-password">{t('fields.password')}</Label>
+        <PasswordField>
+            <PasswordInput
+                id="login-password"
+                name="password"
+                aria-invalid={invalid}
+                aria-describedby="login-error"
+                type={showPassword ? 'text' : 'password'}
+                placeholder={t('login.passwordPlaceholder')}
+                autoComplete="current-password"
+                value={password}
+                onChange={(e: any) => {setPassword(e.target.value)}}
+            />
+            <Toggle
+                type="button"
+                aria-label={showPassword ? t('login.hidePassword') : t('login.showPassword')}
+                aria-pressed={showPassword}
+                onClick={() => setShowPassword(!showPassword)}
+            >
+                {showPassword ? t('login.hide') : t('login.show')}
+            </Toggle>
+        </PasswordField>
+        <ErrorNotice id="login-error" error={error} lockedFor={lockedFor}/>
+        <Button type="submit" disabled={submitting || lockedFor > 0}>
+            {t('login.submit')}
+            {submitting && <Spinner><ClipLoader size={18} sizeUnit="px" color={theme.colors.onPrimary}/></Spinner>}
+        </Button>
+        <div>{t('login.registerPrompt')} <Link {...link(`/register${search}`)}>{t('login.registerLink')}</Link></div>
+        <div><Link {...link('/forgot-password')}>{t('login.forgotPassword')}</Link></div>
     </LoginContainer>)
 }
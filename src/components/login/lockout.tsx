@@ -0,0 +1,65 @@
+import React, {useContext, useEffect, useState} from 'react';
+import styled from 'styled-components';
+import {I18nContext} from '../../contexts/i18n';
+
+type ErrorNoticeProps = {
+    id: string,
+    error: string | null,
+    // Seconds until logging in is allowed again, 0 when it is
+    lockedFor: number,
+}
+
+// Always rendered so screen readers are already watching it when a message appears
+const Notice = styled.div`
+    color: ${props => props.theme.colors.error};
+    margin-bottom: 20px;
+    :empty {
+        margin-bottom: 0;
+    }
+`;
+
+// Read out by screen readers but not drawn
+const VisuallyHidden = styled.span`
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+`;
+
+export const formatWait = (seconds: number) => `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, '0')}`;
+
+// Counts a lockout down once a second. onUnlock runs when logging in is allowed again, e.g. to clear
+// the lockout message. Returns the seconds left and a function to start a lockout.
+export const useLockout = (onUnlock: () => void): [number, (seconds: number) => void] => {
+    const [lockedFor, setLockedFor] = useState(0);
+
+    useEffect(() => {
+        if(!lockedFor) return;
+        const timeout = setTimeout(() => {
+            if(lockedFor === 1) onUnlock();
+            setLockedFor(lockedFor - 1);
+        }, 1000);
+        return () => clearTimeout(timeout);
+    }, [lockedFor]);
+
+    return [lockedFor, setLockedFor];
+}
+
+// Shows the error, or the lockout countdown while there is one
+export const ErrorNotice = ({id, error, lockedFor}: ErrorNoticeProps) => {
+    const {t} = useContext(I18nContext);
+
+    return(<Notice id={id} role="alert">
+        {lockedFor > 0 ?
+            // The countdown would be read out every second, so only the first message is announced
+            <>
+                <VisuallyHidden>{error}</VisuallyHidden>
+                <span aria-hidden="true">{t('common.lockedOut', {time: formatWait(lockedFor)})}</span>
+            </>
+            :
+            error
+        }
+    </Notice>)
+}
@@ -0,0 +1,101 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import BaseButton from '../button';
+import {AuthContext, ApiError} from '../../contexts/auth';
+import {I18nContext} from '../../contexts/i18n';
+import {describeError} from '../../locales/errors';
+import {ErrorNotice, formatWait, useLockout} from './lockout';
+
+const SecondFactorContainer = styled.form`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
+    width: 40%;
+    height: 85%;
+`;
+
+const Input = styled.input`
+    width: 90%;
+    height: 8%;
+    text-align: center;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 15px;
+    margin-bottom: 20px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const Button = styled(BaseButton)`
+    margin-top: 5px;
+    margin-bottom: 20px;
+    height: 7%;
+`;
+
+const Link = styled.a`
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    text-decoration: underline;
+`;
+
+const Label = styled.label`
+    width: 90%;
+    text-align: center;
+    margin-bottom: 20px;
+`;
+
+export default () => {
+    const [code, setCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [lockedFor, lockOut] = useLockout(() => setError(null));
+    const [verifying, setVerifying] = useState(false);
+    const {verifySecondFactor, cancelSecondFactor} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if(!code.trim()) return setError(t('secondFactor.required'));
+
+        setError(null);
+        setVerifying(true);
+        // On success the session starts and this view is replaced, so only failures need handling
+        verifySecondFactor(code.replace(/\s/g, '')).catch((failure: ApiError) => {
+            if(failure.retryAfter) {
+                lockOut(failure.retryAfter);
+                setError(t('common.lockedOut', {time: formatWait(failure.retryAfter)}));
+            }
+            else setError(describeError(failure, t));
+            setCode('');
+            setVerifying(false);
+        });
+    }
+
+    return(
+    <SecondFactorContainer onSubmit={submit} noValidate>
+        <Label htmlFor="second-factor-code">{t('secondFactor.instructions')}</Label>
+        <Input
+            id="second-factor-code"
+            name="code"
+            aria-invalid={!!error && lockedFor === 0}
+            aria-describedby="second-factor-error"
+            placeholder={t('secondFactor.placeholder')}
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e: any) => {setCode(e.target.value)}}
+        />
+        <ErrorNotice id="second-factor-error" error={error} lockedFor={lockedFor}/>
+        <Button type="submit" disabled={verifying || lockedFor > 0}>{t('secondFactor.submit')}</Button>
+        <div><Link href="#" onClick={(e: React.MouseEvent) => {e.preventDefault(); cancelSecondFactor();}}>{t('secondFactor.back')}</Link></div>
+    </SecondFactorContainer>)
+}
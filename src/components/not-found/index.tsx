@@ -0,0 +1,38 @@
+import React, {useContext} from 'react';
+import styled from 'styled-components';
+import {I18nContext} from '../../contexts/i18n';
+import {RouterContext} from '../../contexts/router';
+
+const NotFoundContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
+    width: 40%;
+    height: 85%;
+`;
+
+const Title = styled.h1`
+    font-size: 1.5em;
+    font-weight: normal;
+`;
+
+const Link = styled.a`
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    text-decoration: underline;
+`;
+
+export default () => {
+    const {t} = useContext(I18nContext);
+    const {path, link} = useContext(RouterContext);
+
+    return(<NotFoundContainer>
+        <Title>{t('notFound.title')}</Title>
+        <p>{t('notFound.message', {path})}</p>
+        <Link {...link('/')}>{t('notFound.home')}</Link>
+    </NotFoundContainer>)
+}
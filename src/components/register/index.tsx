@@ -0,0 +1,164 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import BaseButton from '../button';
+import {AuthContext, Registration, FieldError} from '../../contexts/auth';
+import {I18nContext, MessageParams} from '../../contexts/i18n';
+import {RouterContext} from '../../contexts/router';
+import {MessageKey} from '../../locales/types';
+import {describeProblem} from '../../locales/problems';
+import {describeError} from '../../locales/errors';
+import {validateField} from '../../../shared/account';
+import {PasswordPolicy} from '../../api/client';
+import {usePasswordPolicy, ruleChecks} from '../change-password/policy';
+
+type RegisterForm = Registration & {
+    confirmPassword: string,
+}
+
+type FormErrors = Partial<Record<keyof RegisterForm, string>>;
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const FIELDS: {key: keyof RegisterForm, placeholder: MessageKey, type?: string}[] = [
+    {key: 'username', placeholder: 'fields.username'},
+    {key: 'name', placeholder: 'fields.name'},
+    {key: 'password', placeholder: 'fields.password', type: 'password'},
+    {key: 'confirmPassword', placeholder: 'fields.confirmPassword', type: 'password'},
+    {key: 'favouriteFruit', placeholder: 'fields.favouriteFruit'},
+    {key: 'favouriteMovie', placeholder: 'fields.favouriteMovie'},
+    {key: 'favouriteNumber', placeholder: 'fields.favouriteNumber'},
+];
+
+const EMPTY_FORM: RegisterForm = {
+    username: '',
+    name: '',
+    password: '',
+    confirmPassword: '',
+    favouriteFruit: '',
+    favouriteMovie: '',
+    favouriteNumber: '',
+};
+
+// The account fields get the API's own checks from shared/account and the password the API's policy;
+// the password confirmation is the form's
+const validate = (form: RegisterForm, policy: PasswordPolicy, t: Translate) => {
+    const errors: FormErrors = {};
+    FIELDS.forEach(({key, placeholder}) => {
+        if(key === 'confirmPassword') {
+            if(!form.confirmPassword.trim()) errors[key] = t('validation.required', {field: t(placeholder)});
+            return;
+        }
+        const problem = validateField(key, String(form[key]).trim(), {creating: true});
+        if(problem) errors[key] = describeProblem(problem, placeholder, t);
+    });
+
+    if(!errors.password) {
+        const broken = ruleChecks(form.password, policy, t).filter(rule => !rule.met);
+        if(broken.length) errors.password = t('password.missing', {rule: broken.map(rule => rule.label).join(', ')});
+    }
+    if(!errors.confirmPassword && form.confirmPassword !== form.password) {
+        errors.confirmPassword = t('validation.passwordsDiffer');
+    }
+    return errors;
+}
+
+const RegisterContainer = styled.form`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    font-family: ${props => props.theme.font};
+    background-color: ${props => props.theme.colors.panel};
+    color: ${props => props.theme.colors.text};
+    width: 40%;
+    min-height: 85%;
+`;
+
+const Field = styled.div`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    width: 90%;
+    margin-bottom: 10px;
+`;
+
+const Input = styled.input`
+    width: 100%;
+    text-align: center;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const ErrorMessage = styled.div`
+    color: ${props => props.theme.colors.error};
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+const Button = styled(BaseButton)`
+    margin-top: 5px;
+    margin-bottom: 20px;
+`;
+
+const Link = styled.a`
+    color: ${props => props.theme.colors.link};
+    cursor: pointer;
+    text-decoration: underline;
+`;
+
+export default () => {
+
+    const [form, setForm] = useState<RegisterForm>(EMPTY_FORM);
+    const [errors, setErrors] = useState<FormErrors>({});
+    const [formError, setFormError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+    const {register} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const {search, link} = useContext(RouterContext);
+    const policy = usePasswordPolicy();
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const nextErrors = validate(form, policy, t);
+        setErrors(nextErrors);
+        setFormError(null);
+        if(Object.keys(nextErrors).length) return;
+
+        const {confirmPassword, ...registration} = form;
+        setSubmitting(true);
+        register(registration).catch((error: FieldError) => {
+            // Field problems from the API carry no code and keep its wording
+            if(error.field) setErrors({[error.field]: error.code ? describeError(error, t) : error.message});
+            else setFormError(describeError(error, t) || t('register.failed'));
+            setSubmitting(false);
+        });
+    }
+
+    return(
+    <RegisterContainer onSubmit={submit} noValidate>
+        {FIELDS.map(({key, placeholder, type}) => (
+            <Field key={key}>
+                <Input
+                    name={key}
+                    type={type || 'text'}
+                    placeholder={t(placeholder)}
+                    value={form[key]}
+                    onChange={(e: any) => {setForm({...form, [key]: e.target.value})}}
+                />
+                {errors[key] && <ErrorMessage>{errors[key]}</ErrorMessage>}
+            </Field>
+        ))}
+        {formError && <ErrorMessage>{formError}</ErrorMessage>}
+        <Button type="submit" disabled={submitting}>{t('register.submit')}</Button>
+        <div>{t('register.haveAccount')} <Link {...link(`/login${search}`)}>{t('common.logIn')}</Link></div>
+    </RegisterContainer>)
+}
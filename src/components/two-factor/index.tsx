@@ -0,0 +1,165 @@
+import React, {useContext, useState} from 'react';
+import styled from 'styled-components';
+import Button from '../button';
+import QRCode from 'qrcode.react';
+import {AuthContext, ApiError, unwrap} from '../../contexts/auth';
+import {TwoFactorEnrolment} from '../../api/client';
+import {I18nContext} from '../../contexts/i18n';
+import {describeError} from '../../locales/errors';
+
+type TwoFactorProps = {
+    onClose: (message?: string) => void,
+}
+
+const Panel = styled.form`
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    width: 90%;
+    margin-top: 20px;
+    text-align: center;
+`;
+
+const Secret = styled.code`
+    margin-top: 10px;
+    word-break: break-all;
+`;
+
+const Input = styled.input`
+    width: 55%;
+    margin-top: 20px;
+    text-align: center;
+    border-radius: 15px;
+    font-family: ${props => props.theme.font};
+    border: solid 2px ${props => props.theme.colors.primary};
+    background-color: ${props => props.theme.colors.input};
+    color: ${props => props.theme.colors.text};
+    padding: 5px 10px;
+    transition: border-color 0.2s ease-in;
+    :focus {
+        outline: none;
+        border-color: ${props => props.theme.colors.accent};
+    }
+`;
+
+const FieldError = styled.div`
+    color: ${props => props.theme.colors.error};
+    font-size: 0.8em;
+    margin-top: 3px;
+`;
+
+const RecoveryCodes = styled.ul`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    list-style: none;
+    padding: 0;
+    font-family: ${props => props.theme.font};
+`;
+
+const Buttons = styled.div`
+    display: flex;
+    justify-content: center;
+    width: 100%;
+`;
+
+// Enrols the logged in account in two-factor authentication, or turns it off again.
+// Enrolment is scan the QR code, confirm a first code, then note down the recovery codes.
+export default ({onClose}: TwoFactorProps) => {
+    const {user, client, refreshUser} = useContext(AuthContext);
+    const {t} = useContext(I18nContext);
+    const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [working, setWorking] = useState(false);
+
+    const run = (pending: Promise<unknown>) => {
+        setError(null);
+        setWorking(true);
+        pending.catch((failure: ApiError) => {
+            const [detail] = failure.details || [];
+            setError(detail ? detail.message : describeError(failure, t));
+        }).then(() => {
+            setWorking(false);
+        });
+    }
+
+    const start = () => run(client.startTwoFactor().then(unwrap).then(({body}) => setEnrolment(body)));
+
+    const confirm = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(client.confirmTwoFactor({body: {code: code.replace(/\s/g, '')}}).then(unwrap).then(({body}) => {
+            setRecoveryCodes(body.recoveryCodes);
+            setCode('');
+            return refreshUser();
+        }));
+    }
+
+    const disable = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(client.disableTwoFactor({body: {code: code.replace(/\s/g, '')}}).then(unwrap).then(() => refreshUser()).then(() => {
+            onClose(t('twoFactor.disabled'));
+        }));
+    }
+
+    if(recoveryCodes) {
+        return(<Panel onSubmit={(e: React.FormEvent) => {e.preventDefault(); onClose(t('twoFactor.enabled'));}}>
+            <div>{t('twoFactor.recoveryCodes')}</div>
+            <RecoveryCodes>
+                {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+            </RecoveryCodes>
+            <Button type="submit">{t('twoFactor.done')}</Button>
+        </Panel>)
+    }
+
+    if(user.twoFactorEnabled) {
+        return(<Panel onSubmit={disable} noValidate>
+            <label htmlFor="two-factor-code">{t('twoFactor.disableInstructions')}</label>
+            <Input
+                id="two-factor-code"
+                name="code"
+                autoComplete="one-time-code"
+                aria-describedby="two-factor-error"
+                value={code}
+                onChange={(e: any) => {setCode(e.target.value)}}
+            />
+            <FieldError id="two-factor-error" role="alert">{error}</FieldError>
+            <Buttons>
+                <Button type="submit" disabled={working || !code.trim()}>{t('twoFactor.turnOff')}</Button>
+                <Button type="button" disabled={working} onClick={() => onClose()}>{t('common.cancel')}</Button>
+            </Buttons>
+        </Panel>)
+    }
+
+    if(!enrolment) {
+        return(<Panel onSubmit={(e: React.FormEvent) => {e.preventDefault(); start();}}>
+            <div>{t('twoFactor.intro')}</div>
+            <FieldError role="alert">{error}</FieldError>
+            <Buttons>
+                <Button type="submit" disabled={working}>{t('twoFactor.setUp')}</Button>
+                <Button type="button" disabled={working} onClick={() => onClose()}>{t('common.cancel')}</Button>
+            </Buttons>
+        </Panel>)
+    }
+
+    return(<Panel onSubmit={confirm} noValidate>
+        <div>{t('twoFactor.scan')}</div>
+        <QRCode value={enrolment.uri} size={160} includeMargin/>
+        <Secret>{enrolment.secret}</Secret>
+        <Input
+            id="two-factor-code"
+            name="code"
+            aria-label={t('twoFactor.codePlaceholder')}
+            aria-describedby="two-factor-error"
+            placeholder={t('twoFactor.codePlaceholder')}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e: any) => {setCode(e.target.value)}}
+        />
+        <FieldError id="two-factor-error" role="alert">{error}</FieldError>
+        <Buttons>
+            <Button type="submit" disabled={working || !code.trim()}>{t('twoFactor.confirm')}</Button>
+            <Button type="button" disabled={working} onClick={() => onClose()}>{t('common.cancel')}</Button>
+        </Buttons>
+    </Panel>)
+}
@@ -1,46 +1,266 @@
-import React, { useState } from 'react';
-import accounts from '../../storage/account.json';
+import React, { useState, useEffect } from 'react';
+import {ThemeName} from '../themes/types';
+import {createClient, ApiClient, ApiResponse, Success, ErrorBody, ErrorResponse, Role as ApiRole, User as ApiUser} from '../api/client';
+import {fetchTransport} from '../api/fetch-transport';
+import {Profile as AccountProfile} from '../../shared/account';
+
+const API_BASE_URL = '/api';
+const SESSION_STORAGE_KEY = 'qa-code-quiz.session';
+// The longest delay setTimeout handles, about 24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// The account types come from the API contract, see mockedAPI/openapi.js
+export type Role = ApiRole;
+
+export type User = ApiUser;
+
+// The fields users fill in about themselves, as shared/account.js defines them
+export type Profile = AccountProfile;
+
+export interface Registration extends Profile {
+    username: string,
+    password: string,
+}
+
+export interface ApiError extends ErrorBody {
+    // Seconds to wait before retrying, sent with 429 responses
+    retryAfter?: number,
+}
+
+export interface FieldError {
+    field?: keyof Registration,
+    // The API error code, for messages the UI words itself
+    code?: string,
+    message: string,
+}
+
+interface Session {
+    token: string,
+    expiresAt: string,
+}
 
 interface AuthAPI {
-    user?: {
-        name: string,
-        favouriteFruit: string,
-        favouriteMovie: string,
-        favouriteNumber: string,
-    };
+    user?: User;
+    // ISO timestamp at which the current session ends
+    sessionExpiresAt?: string;
+    restoring: boolean;
+    // True between a correct password and the code from the authenticator app
+    secondFactorPending: boolean;
     login: (username: string, password: string) => Promise<void>;
-    logout: () => void;
+    verifySecondFactor: (code: string) => Promise<void>;
+    cancelSecondFactor: () => void;
+    logout: () => Promise<void>;
+    updateProfile: (profile: Profile) => Promise<void>;
+    refreshUser: () => Promise<User>;
+    changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+    // null clears the saved theme
+    saveTheme: (theme: ThemeName | null) => Promise<void>;
+    register: (registration: Registration) => Promise<void>;
+    // The API client, calling as the logged in user when there is one
+    client: ApiClient;
 }
 
 const AuthContext = React.createContext<AuthAPI>({
+    restoring: false,
+    secondFactorPending: false,
     login(){
         return Promise.resolve();
     },
-    logout(){}
+    verifySecondFactor(){
+        return Promise.resolve();
+    },
+    cancelSecondFactor(){},
+    logout(){
+        return Promise.resolve();
+    },
+    updateProfile(){
+        return Promise.resolve();
+    },
+    refreshUser(){
+        return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+    },
+    changePassword(){
+        return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+    },
+    saveTheme(){
+        return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+    },
+    register(){
+        return Promise.resolve();
+    },
+    client: createClient(fetchTransport(API_BASE_URL)),
 })
 
+const readStoredSession = (): Session | undefined => {
+    try {
+        const stored = window.localStorage.getItem(SESSION_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : undefined;
+    } catch(e) {
+        return undefined;
+    }
+}
+
+// Resolves with a successful response. Anything else rejects with the {code, message} error body
+// the API sends with every failed request, plus the seconds to wait from a 429's Retry-After.
+const unwrap = <R extends ApiResponse<number, unknown>>(response: R): Promise<Success<R>> => {
+    if(response.status < 400) return Promise.resolve(response as Success<R>);
+
+    const body = response.body as Partial<ErrorResponse> | undefined;
+    const error = body && body.error ? body.error : {code: 'HTTP_ERROR', message: `Request failed with status ${response.status}`};
+    const retryAfter = Number(response.headers['retry-after']) || undefined;
+    return Promise.reject({...error, retryAfter});
+}
+
+const fetchCurrentUser = (token: string) => {
+    return createClient(fetchTransport(API_BASE_URL, token)).getCurrentSession().then(unwrap).then(({body}) => body);
+}
+
 const AuthProvider: React.FC = ({children}) => {
 
-    const [user, setUser] = useState();
+    const [session, setSession] = useState<Session | undefined>(readStoredSession);
+    const [user, setUser] = useState<User | undefined>();
+    const [restoring, setRestoring] = useState(!!session);
+    const [challengeToken, setChallengeToken] = useState<string | undefined>();
 
-    const login = (username: string, password: string) => {
-        console.warn({username, password})
-        if(accounts[username].password === password) {
-            setUser(accounts[username]);
-            return Promise.resolve(accounts[username])
-        } else {
-            return Promise.reject("INVALID USER");
+    const startSession = (next: Session, profile: User) => {
+        setChallengeToken(undefined);
+        window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+        setSession(next);
+        setUser(profile);
+    }
+
+    const endSession = () => {
+        window.localStorage.removeItem(SESSION_STORAGE_KEY);
+        setSession(undefined);
+        setUser(undefined);
+    }
+
+    // Restore the stored session on startup; a rejected or expired token is a clean logout
+    useEffect(() => {
+        if(!session) return;
+
+        fetchCurrentUser(session.token).then(({expiresAt, user}) => {
+            startSession({token: session.token, expiresAt}, user);
+        }).catch(() => {
+            endSession();
+        }).then(() => {
+            setRestoring(false);
+        });
+    }, []);
+
+    // Log out locally as soon as the token expires. Browsers fire longer timeouts than MAX_TIMEOUT_MS
+    // straight away, so long sessions wait in steps.
+    useEffect(() => {
+        if(!session) return;
+
+        const expiresAt = new Date(session.expiresAt).getTime();
+        let timeout: number;
+        const wait = () => {
+            const remaining = expiresAt - Date.now();
+            if(remaining <= 0) return endSession();
+            timeout = window.setTimeout(wait, Math.min(remaining, MAX_TIMEOUT_MS));
         }
+        wait();
+        return () => clearTimeout(timeout);
+    }, [session]);
+
+    // Calls the API as the logged in user
+    const client = createClient(fetchTransport(API_BASE_URL, session ? session.token : undefined));
+
+    const login = (username: string, password: string) => {
+        return client.createSession({body: {username, password}}).then(unwrap).then(response => {
+            // 202: the password was right, but the account also wants a code from the authenticator app
+            if(response.status === 202) return setChallengeToken(response.body.challengeToken);
+
+            const {token, expiresAt, user} = response.body;
+            startSession({token, expiresAt}, user);
+        });
+    }
+
+    // Accepts a code from the authenticator app or one of the recovery codes
+    const verifySecondFactor = (code: string) => {
+        if(!challengeToken) return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Log in with your password first'});
+
+        return client.verifySecondFactor({body: {challengeToken, code}}).then(unwrap).then(({body: {token, expiresAt, user}}) => {
+            startSession({token, expiresAt}, user);
+        }, (error: ApiError) => {
+            // An expired challenge cannot be retried; start again from the password
+            if(error.code === 'VALIDATION_FAILED') setChallengeToken(undefined);
+            return Promise.reject(error);
+        });
+    }
+
+    const cancelSecondFactor = () => {
+        setChallengeToken(undefined);
     }
 
     const logout = () => {
-        setUser(undefined);
+        if(!session) return Promise.resolve();
+
+        return client.deleteSession().catch(() => {
+            // The token is discarded locally either way
+        }).then(() => {
+            endSession();
+        });
+    }
+
+    const updateProfile = (profile: Profile) => {
+        if(!session || !user) return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+
+        // A 412 means the account changed since it was loaded; the caller decides whether to refresh
+        return client.updateUser({
+            query: {username: user.username},
+            headers: {'If-Match': `"${user.version}"`},
+            body: profile,
+        }).then(unwrap).then(({body}) => setUser(body));
+    }
+
+    const refreshUser = () => {
+        if(!session) return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+
+        return fetchCurrentUser(session.token).then(({user}) => {
+            setUser(user);
+            return user;
+        });
+    }
+
+    // Policy failures reject with one detail per broken rule, keyed to currentPassword or newPassword
+    const changePassword = (currentPassword: string, newPassword: string) => {
+        if(!session) return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+
+        return client.changePassword({body: {currentPassword, newPassword}}).then(unwrap).then(({body}) => setUser(body));
+    }
+
+    const saveTheme = (theme: ThemeName | null) => {
+        if(!session) return Promise.reject({code: 'NOT_AUTHENTICATED', message: 'Not logged in'});
+
+        return client.saveTheme({body: {theme}}).then(unwrap).then(({body}) => setUser(body));
+    }
+
+    // Creates the account, then logs straight in with the same credentials
+    const register = (registration: Registration) => {
+        return client.createUser({body: registration}).then(unwrap).catch((error: ApiError): Promise<never> => {
+            if(error.code === 'ACCOUNT_EXISTS') return Promise.reject({field: 'username', code: error.code, message: error.message});
+            const [detail] = error.details || [];
+            return Promise.reject(detail ? detail : error);
+        }).then(() => login(registration.username, registration.password));
     }
 
     const api = {
         user,
+        sessionExpiresAt: session ? session.expiresAt : undefined,
+        restoring,
+        secondFactorPending: !!challengeToken,
         logout,
-        login
+        login,
+        verifySecondFactor,
+        cancelSecondFactor,
+        updateProfile,
+        refreshUser,
+        changePassword,
+        saveTheme,
+        register,
+        client,
     }
 
     return (
@@ -50,4 +270,4 @@ const AuthProvider: React.FC = ({children}) => {
     )
 }
 
-export {AuthContext, AuthProvider};
+export {AuthContext, AuthProvider, unwrap};
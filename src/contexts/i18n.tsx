@@ -0,0 +1,118 @@
+import React, {useState, useEffect} from 'react';
+import {CATALOGS, DEFAULT_LOCALE} from '../locales';
+import {Message, MessageKey, PluralCategory} from '../locales/types';
+
+const LOCALE_STORAGE_KEY = 'qa-code-quiz.locale';
+
+export type MessageParams = Record<string, string | number>;
+
+interface I18nAPI {
+    locale: string;
+    locales: {code: string, name: string}[];
+    setLocale: (locale: string) => void;
+    // Looks the key up in the current catalog, falling back to English
+    t: (key: MessageKey, params?: MessageParams) => string;
+    formatNumber: (value: number) => string;
+    formatDate: (value: Date | string) => string;
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+};
+
+const LOCALES = Object.keys(CATALOGS).map(code => ({code, name: CATALOGS[code].name}));
+
+// Replaces {name} placeholders; numbers are formatted for the locale on the way in
+const interpolate = (text: string, params: MessageParams, formatNumber: (value: number) => string) => {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if(!(name in params)) return placeholder;
+        const value = params[name];
+        return typeof value === 'number' ? formatNumber(value) : value;
+    });
+}
+
+const selectPlural = (message: Message, locale: string, count: number) => {
+    if(typeof message === 'string') return message;
+    const category = new Intl.PluralRules(locale).select(count) as PluralCategory;
+    return message[category] || message.other;
+}
+
+const translate = (locale: string, key: MessageKey, params: MessageParams = {}) => {
+    const catalog = CATALOGS[locale] || CATALOGS[DEFAULT_LOCALE];
+    const message = catalog.messages[key] || CATALOGS[DEFAULT_LOCALE].messages[key];
+    if(message === undefined) return key;
+
+    const formatNumber = (value: number) => new Intl.NumberFormat(locale).format(value);
+    const count = typeof params.count === 'number' ? params.count : 0;
+    return interpolate(selectPlural(message, locale, count), params, formatNumber);
+}
+
+const I18nContext = React.createContext<I18nAPI>({
+    locale: DEFAULT_LOCALE,
+    locales: LOCALES,
+    setLocale(){},
+    t(key, params){
+        return translate(DEFAULT_LOCALE, key, params);
+    },
+    formatNumber(value){
+        return new Intl.NumberFormat(DEFAULT_LOCALE).format(value);
+    },
+    formatDate(value){
+        return new Intl.DateTimeFormat(DEFAULT_LOCALE, DATE_FORMAT).format(new Date(value));
+    },
+})
+
+// A saved choice wins, then the first browser language we have a catalog for
+const initialLocale = () => {
+    try {
+        const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+        if(stored && CATALOGS[stored]) return stored;
+    } catch(e) {
+        // Storage can be unavailable, e.g. in private browsing; fall through to the browser
+    }
+
+    const preferred = (navigator.languages || [navigator.language])
+        .map(language => language.toLowerCase().split('-')[0])
+        .find(language => !!CATALOGS[language]);
+    return preferred || DEFAULT_LOCALE;
+}
+
+const I18nProvider: React.FC = ({children}) => {
+
+    const [locale, setLocaleState] = useState(initialLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = (next: string) => {
+        if(!CATALOGS[next]) return;
+        try {
+            window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+        } catch(e) {
+            // The choice still applies until the page is reloaded
+        }
+        setLocaleState(next);
+    }
+
+    const api = {
+        locale,
+        locales: LOCALES,
+        setLocale,
+        t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+        formatNumber: (value: number) => new Intl.NumberFormat(locale).format(value),
+        formatDate: (value: Date | string) => new Intl.DateTimeFormat(locale, DATE_FORMAT).format(new Date(value)),
+    }
+
+    return (
+        <I18nContext.Provider value={api}>
+            {children}
+        </I18nContext.Provider>
+    )
+}
+
+export {I18nContext, I18nProvider};
@@ -0,0 +1,77 @@
+import React, {useState, useEffect} from 'react';
+
+interface Location {
+    path: string;
+    // The query string including its leading "?", or empty
+    search: string;
+}
+
+interface NavigateOptions {
+    // Replace the current history entry rather than adding one, e.g. for redirects
+    replace?: boolean;
+}
+
+interface RouterAPI extends Location {
+    query: URLSearchParams;
+    navigate: (to: string, options?: NavigateOptions) => void;
+    // Props for an <a> that navigates without reloading the page
+    link: (to: string) => {href: string, onClick: (e: React.MouseEvent) => void};
+}
+
+const currentLocation = (): Location => ({path: window.location.pathname, search: window.location.search});
+
+const RouterContext = React.createContext<RouterAPI>({
+    ...currentLocation(),
+    query: new URLSearchParams(window.location.search),
+    navigate(){},
+    link(to){
+        return {href: to, onClick(){}};
+    },
+})
+
+// Only same-site paths may be returned to after logging in. "//host" and "/\host" look like paths but
+// browsers resolve them to another site, so the path is resolved the way the browser would
+const isLocalPath = (to: string) => to.startsWith('/') && new URL(to, window.location.origin).origin === window.location.origin;
+
+const RouterProvider: React.FC = ({children}) => {
+
+    const [location, setLocation] = useState(currentLocation);
+
+    // The back and forward buttons change the URL without asking us
+    useEffect(() => {
+        const update = () => setLocation(currentLocation());
+        window.addEventListener('popstate', update);
+        return () => window.removeEventListener('popstate', update);
+    }, []);
+
+    const navigate = (to: string, {replace = false}: NavigateOptions = {}) => {
+        if(replace) window.history.replaceState(null, '', to);
+        else window.history.pushState(null, '', to);
+        setLocation(currentLocation());
+    }
+
+    const link = (to: string) => ({
+        href: to,
+        onClick: (e: React.MouseEvent) => {
+            // Leave modified clicks to the browser so links still open in new tabs
+            if(e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+            e.preventDefault();
+            navigate(to);
+        },
+    })
+
+    const api = {
+        ...location,
+        query: new URLSearchParams(location.search),
+        navigate,
+        link,
+    }
+
+    return (
+        <RouterContext.Provider value={api}>
+            {children}
+        </RouterContext.Provider>
+    )
+}
+
+export {RouterContext, RouterProvider, isLocalPath};
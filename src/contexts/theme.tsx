@@ -0,0 +1,113 @@
+import React, {useState, useEffect, useContext} from 'react';
+import {ThemeProvider as StyledThemeProvider} from 'styled-components';
+import {AuthContext} from './auth';
+import {THEMES, THEME_NAMES} from '../themes';
+import {Theme, ThemeName} from '../themes/types';
+
+const THEME_STORAGE_KEY = 'qa-code-quiz.theme';
+
+interface ThemeAPI {
+    theme: Theme;
+    themeName: ThemeName;
+    themeNames: ThemeName[];
+    // The user's own choice, or null while the browser's colour scheme decides
+    preference: ThemeName | null;
+    setPreference: (theme: ThemeName | null) => void;
+}
+
+const ThemeContext = React.createContext<ThemeAPI>({
+    theme: THEMES.light,
+    themeName: 'light',
+    themeNames: THEME_NAMES,
+    preference: null,
+    setPreference(){},
+})
+
+const isThemeName = (value: unknown): value is ThemeName => THEME_NAMES.indexOf(value as ThemeName) !== -1;
+
+const readStoredTheme = (): ThemeName | null => {
+    try {
+        const stored = window.localStorage.getItem(THEME_STORAGE_KEY);
+        return isThemeName(stored) ? stored : null;
+    } catch(e) {
+        return null;
+    }
+}
+
+// Keeps the last choice on this device, so the login form matches it before anyone logs in
+const storeTheme = (theme: ThemeName | null) => {
+    try {
+        if(theme) window.localStorage.setItem(THEME_STORAGE_KEY, theme);
+        else window.localStorage.removeItem(THEME_STORAGE_KEY);
+    } catch(e) {
+        // Storage can be unavailable, e.g. in private browsing; the choice still applies for now
+    }
+}
+
+const SYSTEM_QUERIES: {query: string, theme: ThemeName}[] = [
+    {query: '(prefers-contrast: more)', theme: 'high-contrast'},
+    {query: '(prefers-color-scheme: dark)', theme: 'dark'},
+];
+
+const systemTheme = (): ThemeName => {
+    if(!window.matchMedia) return 'light';
+    const match = SYSTEM_QUERIES.find(({query}) => window.matchMedia(query).matches);
+    return match ? match.theme : 'light';
+}
+
+// Follows changes to the operating system's settings while the page is open
+const useSystemTheme = () => {
+    const [theme, setTheme] = useState(systemTheme);
+
+    useEffect(() => {
+        if(!window.matchMedia) return;
+        const lists = SYSTEM_QUERIES.map(({query}) => window.matchMedia(query));
+        const update = () => setTheme(systemTheme());
+        lists.forEach(list => list.addListener(update));
+        return () => lists.forEach(list => list.removeListener(update));
+    }, []);
+
+    return theme;
+}
+
+const ThemeProvider: React.FC = ({children}) => {
+
+    const {user, saveTheme} = useContext(AuthContext);
+    const [preference, setStoredPreference] = useState(readStoredTheme);
+    const system = useSystemTheme();
+
+    // A theme saved on the profile replaces this device's when it loads, so it follows the user around
+    const saved = user && user.theme ? user.theme : null;
+    useEffect(() => {
+        if(!saved) return;
+        storeTheme(saved);
+        setStoredPreference(saved);
+    }, [saved]);
+
+    const themeName = preference || system;
+
+    const setPreference = (theme: ThemeName | null) => {
+        storeTheme(theme);
+        setStoredPreference(theme);
+        // Failing to save only loses the choice on other devices; it still applies here
+        if(user) saveTheme(theme).catch(() => {});
+    }
+
+    const api = {
+        theme: THEMES[themeName],
+        themeName,
+        themeNames: THEME_NAMES,
+        preference,
+        setPreference,
+    }
+
+    return (
+        <ThemeContext.Provider value={api}>
+            <StyledThemeProvider theme={api.theme}>
+                <>{children}</>
+            </StyledThemeProvider>
+        </ThemeContext.Provider>
+    )
+}
+
+export {ThemeContext, ThemeProvider};
@@ -3,10 +3,19 @@ import React from "react";
 import ReactDOM from "react-dom";
 import App from "./components/app";
 import {AuthProvider} from './contexts/auth';
+import {I18nProvider} from './contexts/i18n';
+import {ThemeProvider} from './contexts/theme';
+import {RouterProvider} from './contexts/router';
 
 ReactDOM.render(
-    <AuthProvider>
-      <App />
-    </AuthProvider>,
+    <RouterProvider>
+      <I18nProvider>
+        <AuthProvider>
+          <ThemeProvider>
+            <App />
+          </ThemeProvider>
+        </AuthProvider>
+      </I18nProvider>
+    </RouterProvider>,
   document.getElementById("root")
 );
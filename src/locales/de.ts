@@ -0,0 +1,189 @@
+import {Catalog} from './types';
+
+const de: Catalog = {
+    name: 'Deutsch',
+    messages: {
+        'header.siteName': 'qa.code-quiz.dev',
+        'header.greeting': 'Hallo {name}',
+        'header.language': 'Sprache',
+        'header.theme': 'Design',
+
+        'theme.system': 'Wie im System',
+        'theme.light': 'Hell',
+        'theme.dark': 'Dunkel',
+        'theme.high-contrast': 'Hoher Kontrast',
+
+        'common.cancel': 'ABBRECHEN',
+        'common.save': 'SPEICHERN',
+        'common.edit': 'BEARBEITEN',
+        'common.close': 'SCHLIESSEN',
+        'common.back': 'ZURÜCK',
+        'common.logIn': 'Anmelden',
+        'common.errorWithReason': '{message}: {reason}',
+        'common.lockedOut': 'Zu viele fehlgeschlagene Anmeldungen. Erneut versuchen in {time}',
+
+        'fields.username': 'Benutzername',
+        'fields.name': 'Name',
+        'fields.password': 'Passwort',
+        'fields.confirmPassword': 'Passwort bestätigen',
+        'fields.currentPassword': 'Aktuelles Passwort',
+        'fields.newPassword': 'Neues Passwort',
+        'fields.favouriteFruit': 'Lieblingsobst',
+        'fields.favouriteMovie': 'Lieblingsfilm',
+        'fields.favouriteNumber': 'Lieblingszahl',
+        'fields.role': 'Rolle',
+
+        'roles.user': 'Benutzer',
+        'roles.admin': 'Administrator',
+
+        'validation.required': '{field} ist erforderlich',
+        'validation.tooLong': '{field} darf höchstens {max} Zeichen lang sein',
+        'validation.username': 'Der Benutzername muss aus 3-32 Buchstaben, Ziffern, Punkten, Binde- oder Unterstrichen bestehen',
+        'validation.passwordsDiffer': 'Die Passwörter stimmen nicht überein',
+
+        'errors.unreachable': 'Der Server ist nicht erreichbar, bitte erneut versuchen',
+        'errors.requestFailed': 'Die Anfrage ist fehlgeschlagen, bitte erneut versuchen',
+        'errors.server': 'Auf dem Server ist ein Fehler aufgetreten, bitte erneut versuchen',
+        'errors.notAuthenticated': 'Sie sind nicht angemeldet',
+        'errors.sessionExpired': 'Ihre Sitzung ist abgelaufen, bitte erneut anmelden',
+        'errors.forbidden': 'Dazu sind Sie nicht berechtigt',
+        'errors.invalidCredentials': 'Ungültige Anmeldedaten',
+        'errors.invalidSecondFactor': 'Ungültiger Bestätigungscode',
+        'errors.tooManyAttempts': 'Zu viele fehlgeschlagene Versuche, bitte später erneut versuchen',
+        'errors.recoveryFailed': 'Diese Antworten stimmen nicht mit unseren Daten überein',
+        'errors.accountNotFound': 'Dieses Konto existiert nicht',
+        'errors.accountExists': 'Der Benutzername ist bereits vergeben',
+        'errors.changedElsewhere': 'Das Konto wurde von jemand anderem geändert',
+        'errors.twoFactorEnabled': 'Die Zwei-Faktor-Authentifizierung ist bereits aktiviert',
+        'errors.twoFactorDisabled': 'Die Zwei-Faktor-Authentifizierung ist nicht aktiviert',
+        'errors.importConflict': 'Einige Benutzernamen sind vergeben oder wurden während des Imports geändert',
+        'errors.validationFailed': 'Einige Angaben sind ungültig',
+        'errors.tooLarge': 'Das ist zu viel auf einmal',
+
+        'login.usernamePlaceholder': 'Benutzername eingeben',
+        'login.passwordPlaceholder': 'Passwort',
+        'login.show': 'Anzeigen',
+        'login.hide': 'Verbergen',
+        'login.showPassword': 'Passwort anzeigen',
+        'login.hidePassword': 'Passwort verbergen',
+        'login.inputMissing': 'Eingabe fehlt',
+        'login.usernameRequired': 'Benutzername ist erforderlich',
+        'login.passwordRequired': 'Passwort ist erforderlich',
+        'login.submit': 'ANMELDEN',
+        'login.registerPrompt': 'Wenn Sie noch kein Konto haben,',
+        'login.registerLink': 'registrieren Sie sich hier',
+        'login.forgotPassword': 'Passwort vergessen?',
+
+        'secondFactor.instructions': 'Geben Sie den 6-stelligen Code aus Ihrer Authenticator-App oder einen Ihrer Wiederherstellungscodes ein.',
+        'secondFactor.placeholder': 'Bestätigungscode',
+        'secondFactor.required': 'Geben Sie den Code aus Ihrer Authenticator-App ein',
+        'secondFactor.submit': 'BESTÄTIGEN',
+        'secondFactor.back': 'Zurück zur Anmeldung',
+
+        'register.submit': 'REGISTRIEREN',
+        'register.failed': 'Registrierung fehlgeschlagen',
+        'register.haveAccount': 'Sie haben bereits ein Konto?',
+
+        'recovery.question.favouriteFruit': 'Was ist Ihr Lieblingsobst?',
+        'recovery.question.favouriteMovie': 'Was ist Ihr Lieblingsfilm?',
+        'recovery.question.favouriteNumber': 'Was ist Ihre Lieblingszahl?',
+        'recovery.answerAll': 'Bitte beantworten Sie beide Fragen',
+        'recovery.done': 'Ihr Passwort wurde zurückgesetzt. Sie können sich jetzt damit anmelden.',
+        'recovery.continue': 'WEITER',
+        'recovery.verify': 'PRÜFEN',
+        'recovery.reset': 'PASSWORT ZURÜCKSETZEN',
+        'recovery.logIn': 'ANMELDEN',
+        'recovery.remembered': 'Doch wieder eingefallen?',
+
+        'account.reloadLatest': 'NEU LADEN',
+        'account.loadedLatest': 'Das aktuelle Profil wurde geladen',
+        'account.reloadFailed': 'Profil konnte nicht neu geladen werden: {reason}',
+        'account.updated': 'Profil aktualisiert',
+        'account.conflict': 'Dieses Profil wurde woanders geändert, während Sie es bearbeitet haben',
+        'account.updateFailed': 'Profil konnte nicht aktualisiert werden: {reason}',
+        'account.changePassword': 'PASSWORT ÄNDERN',
+        'account.passwordChanged': 'Passwort geändert',
+        'account.setUpTwoFactor': '2FA EINRICHTEN',
+        'account.turnOffTwoFactor': '2FA AUSSCHALTEN',
+        'account.admin': 'VERWALTUNG',
+        'account.logout': 'ABMELDEN',
+        'account.sessionExpires': 'Sitzung läuft ab am {time}',
+
+        'password.strength.0': 'Sehr schwach',
+        'password.strength.1': 'Schwach',
+        'password.strength.2': 'Mittel',
+        'password.strength.3': 'Gut',
+        'password.strength.4': 'Stark',
+        'password.class.lower': 'einen Kleinbuchstaben',
+        'password.class.upper': 'einen Großbuchstaben',
+        'password.class.digit': 'eine Ziffer',
+        'password.class.symbol': 'ein Sonderzeichen',
+        'password.rule.minLength': 'Mindestens {min} Zeichen',
+        'password.rule.contains': 'Enthält {description}',
+        'password.rule.history': {
+            one: 'Nicht Ihr letztes Passwort',
+            other: 'Keines Ihrer letzten {count} Passwörter',
+        },
+        'password.missing': 'Fehlt: {rule}',
+        'password.changeFailed': 'Passwort konnte nicht geändert werden: {reason}',
+        'password.submit': 'ÄNDERN',
+
+        'twoFactor.intro': 'Die Zwei-Faktor-Authentifizierung fragt bei jeder Anmeldung nach einem Code aus einer Authenticator-App.',
+        'twoFactor.setUp': 'EINRICHTEN',
+        'twoFactor.scan': 'Scannen Sie diesen Code mit Ihrer Authenticator-App oder geben Sie den Schlüssel von Hand ein.',
+        'twoFactor.codePlaceholder': '6-stelliger Code',
+        'twoFactor.confirm': 'BESTÄTIGEN',
+        'twoFactor.recoveryCodes': 'Die Zwei-Faktor-Authentifizierung ist eingeschaltet. Bewahren Sie diese Wiederherstellungscodes sicher auf. Jeder erlaubt eine Anmeldung, falls Sie Ihr Gerät verlieren, und sie werden nicht noch einmal angezeigt.',
+        'twoFactor.done': 'FERTIG',
+        'twoFactor.disableInstructions': 'Geben Sie einen Code aus Ihrer Authenticator-App oder einen Wiederherstellungscode ein, um die Zwei-Faktor-Authentifizierung auszuschalten.',
+        'twoFactor.turnOff': 'AUSSCHALTEN',
+        'twoFactor.enabled': 'Zwei-Faktor-Authentifizierung eingeschaltet',
+        'twoFactor.disabled': 'Zwei-Faktor-Authentifizierung ausgeschaltet',
+
+        'admin.column.fruit': 'Obst',
+        'admin.column.movie': 'Film',
+        'admin.column.number': 'Zahl',
+        'admin.search': 'Benutzer suchen',
+        'admin.total': {
+            one: '{count} Konto',
+            other: '{count} Konten',
+        },
+        'admin.page': 'Seite {page} von {pages}',
+        'admin.previous': 'ZURÜCK',
+        'admin.next': 'WEITER',
+        'admin.delete': 'LÖSCHEN',
+        'admin.confirmDelete': 'LÖSCHEN BESTÄTIGEN',
+        'admin.deletePrompt': '{username} löschen? Das kann nicht rückgängig gemacht werden.',
+        'admin.turnOffTwoFactor': '2FA AUSSCHALTEN',
+        'admin.loadFailed': 'Benutzer konnten nicht geladen werden: {reason}',
+        'admin.updated': '{username} aktualisiert',
+        'admin.updateFailed': '{username} konnte nicht aktualisiert werden',
+        'admin.deleted': '{username} gelöscht',
+        'admin.deleteFailed': '{username} konnte nicht gelöscht werden',
+        'admin.twoFactorOff': 'Zwei-Faktor-Authentifizierung für {username} ausgeschaltet',
+        'admin.twoFactorOffFailed': 'Zwei-Faktor-Authentifizierung für {username} konnte nicht ausgeschaltet werden',
+        'admin.conflict': '{message}: Das Konto wurde von jemand anderem geändert, die aktuellen Daten wurden neu geladen',
+        'admin.export.csv': 'ALS CSV EXPORTIEREN',
+        'admin.export.json': 'ALS JSON EXPORTIEREN',
+        'admin.export.failed': 'Benutzer konnten nicht exportiert werden: {reason}',
+        'admin.import.title': 'Benutzer importieren',
+        'admin.import.file': 'CSV- oder JSON-Datei',
+        'admin.import.onConflict': 'Wenn ein Benutzername vergeben ist',
+        'admin.import.policy.skip': 'Zeile überspringen',
+        'admin.import.policy.overwrite': 'Konto überschreiben',
+        'admin.import.policy.fail': 'Nichts importieren',
+        'admin.import.check': 'PRÜFEN',
+        'admin.import.submit': 'IMPORTIEREN',
+        'admin.import.noFile': 'Wählen Sie eine Datei zum Importieren',
+        'admin.import.checked': 'Bereit: {created} anlegen, {updated} aktualisieren, {skipped} überspringen; {conflicts} vergeben, {invalid} ungültig',
+        'admin.import.done': 'Importiert: {created} angelegt, {updated} aktualisiert, {skipped} übersprungen',
+        'admin.import.failed': 'Benutzer konnten nicht importiert werden: {reason}',
+        'admin.import.row': 'Zeile {row}: {message}',
+
+        'notFound.title': 'Seite nicht gefunden',
+        'notFound.message': 'Unter {path} gibt es nichts.',
+        'notFound.home': 'Zurück zum Anfang',
+    },
+};
+
+export default de;
@@ -0,0 +1,190 @@
+// The reference catalog: every key used by the UI is defined here first, and the other
+// catalogs are type-checked against it. Placeholders are written {name}; a message that
+// depends on a {count} lists one variant per plural category.
+const en = {
+    name: 'English',
+    messages: {
+        'header.siteName': 'qa.code-quiz.dev',
+        'header.greeting': 'Hello {name}',
+        'header.language': 'Language',
+        'header.theme': 'Theme',
+
+        'theme.system': 'Match system',
+        'theme.light': 'Light',
+        'theme.dark': 'Dark',
+        'theme.high-contrast': 'High contrast',
+
+        'common.cancel': 'CANCEL',
+        'common.save': 'SAVE',
+        'common.edit': 'EDIT',
+        'common.close': 'CLOSE',
+        'common.back': 'BACK',
+        'common.logIn': 'Log in',
+        'common.errorWithReason': '{message}: {reason}',
+        'common.lockedOut': 'Too many failed logins. Try again in {time}',
+
+        'fields.username': 'Username',
+        'fields.name': 'Name',
+        'fields.password': 'Password',
+        'fields.confirmPassword': 'Confirm Password',
+        'fields.currentPassword': 'Current Password',
+        'fields.newPassword': 'New Password',
+        'fields.favouriteFruit': 'Favourite Fruit',
+        'fields.favouriteMovie': 'Favourite Movie',
+        'fields.favouriteNumber': 'Favourite Number',
+        'fields.role': 'Role',
+
+        'roles.user': 'user',
+        'roles.admin': 'admin',
+
+        'validation.required': '{field} is required',
+        'validation.tooLong': '{field} must be at most {max} characters',
+        'validation.username': 'Username must be 3-32 letters, numbers, dots, dashes or underscores',
+        'validation.passwordsDiffer': 'Passwords do not match',
+
+        'errors.unreachable': 'Could not reach the server, please try again',
+        'errors.requestFailed': 'The request failed, please try again',
+        'errors.server': 'Something went wrong on the server, please try again',
+        'errors.notAuthenticated': 'You are not logged in',
+        'errors.sessionExpired': 'Your session has expired, please log in again',
+        'errors.forbidden': 'You are not allowed to do that',
+        'errors.invalidCredentials': 'Invalid credentials',
+        'errors.invalidSecondFactor': 'Invalid verification code',
+        'errors.tooManyAttempts': 'Too many failed attempts, please try again later',
+        'errors.recoveryFailed': 'Those answers do not match our records',
+        'errors.accountNotFound': 'That account does not exist',
+        'errors.accountExists': 'Username is already taken',
+        'errors.changedElsewhere': 'The account was changed by someone else',
+        'errors.twoFactorEnabled': 'Two-factor authentication is already on',
+        'errors.twoFactorDisabled': 'Two-factor authentication is not on',
+        'errors.importConflict': 'Some usernames are taken or changed during the import',
+        'errors.validationFailed': 'Some of the details are not valid',
+        'errors.tooLarge': 'That is too much to send at once',
+
+        'login.usernamePlaceholder': 'Enter Username',
+        'login.passwordPlaceholder': 'password',
+        'login.show': 'Show',
+        'login.hide': 'Hide',
+        'login.showPassword': 'Show password',
+        'login.hidePassword': 'Hide password',
+        'login.inputMissing': 'Input missing',
+        'login.usernameRequired': 'Username is required',
+        'login.passwordRequired': 'Password is required',
+        'login.submit': 'LOGIN',
+        'login.registerPrompt': 'If you do not have an account,',
+        'login.registerLink': 'register here',
+        'login.forgotPassword': 'Forgot password?',
+
+        'secondFactor.instructions': 'Enter the 6 digit code from your authenticator app, or one of your recovery codes.',
+        'secondFactor.placeholder': 'Verification code',
+        'secondFactor.required': 'Enter the code from your authenticator app',
+        'secondFactor.submit': 'VERIFY',
+        'secondFactor.back': 'Back to login',
+
+        'register.submit': 'REGISTER',
+        'register.failed': 'Registration failed',
+        'register.haveAccount': 'Already have an account?',
+
+        'recovery.question.favouriteFruit': 'What is your favourite fruit?',
+        'recovery.question.favouriteMovie': 'What is your favourite movie?',
+        'recovery.question.favouriteNumber': 'What is your favourite number?',
+        'recovery.answerAll': 'Please answer both questions',
+        'recovery.done': 'Your password has been reset. You can now log in with it.',
+        'recovery.continue': 'CONTINUE',
+        'recovery.verify': 'VERIFY',
+        'recovery.reset': 'RESET PASSWORD',
+        'recovery.logIn': 'LOG IN',
+        'recovery.remembered': 'Remembered it?',
+
+        'account.reloadLatest': 'RELOAD LATEST',
+        'account.loadedLatest': 'Loaded the latest profile',
+        'account.reloadFailed': 'Could not reload profile: {reason}',
+        'account.updated': 'Profile updated',
+        'account.conflict': 'This profile was changed somewhere else while you were editing it',
+        'account.updateFailed': 'Could not update profile: {reason}',
+        'account.changePassword': 'CHANGE PASSWORD',
+        'account.passwordChanged': 'Password changed',
+        'account.setUpTwoFactor': 'SET UP 2FA',
+        'account.turnOffTwoFactor': 'TURN OFF 2FA',
+        'account.admin': 'ADMIN',
+        'account.logout': 'LOGOUT',
+        'account.sessionExpires': 'Session expires {time}',
+
+        'password.strength.0': 'Very weak',
+        'password.strength.1': 'Weak',
+        'password.strength.2': 'Fair',
+        'password.strength.3': 'Good',
+        'password.strength.4': 'Strong',
+        'password.class.lower': 'a lowercase letter',
+        'password.class.upper': 'an uppercase letter',
+        'password.class.digit': 'a number',
+        'password.class.symbol': 'a symbol',
+        'password.rule.minLength': 'At least {min} characters',
+        'password.rule.contains': 'Contains {description}',
+        'password.rule.history': {
+            one: 'Not your last password',
+            other: 'Not one of your last {count} passwords',
+        },
+        'password.missing': 'Missing: {rule}',
+        'password.changeFailed': 'Could not change password: {reason}',
+        'password.submit': 'CHANGE',
+
+        'twoFactor.intro': 'Two-factor authentication asks for a code from an authenticator app each time you log in.',
+        'twoFactor.setUp': 'SET UP',
+        'twoFactor.scan': 'Scan this code with your authenticator app, or enter the key by hand.',
+        'twoFactor.codePlaceholder': '6 digit code',
+        'twoFactor.confirm': 'CONFIRM',
+        'twoFactor.recoveryCodes': 'Two-factor authentication is on. Keep these recovery codes somewhere safe. Each one logs you in once if you lose your device, and they will not be shown again.',
+        'twoFactor.done': 'DONE',
+        'twoFactor.disableInstructions': 'Enter a code from your authenticator app, or a recovery code, to turn two-factor authentication off.',
+        'twoFactor.turnOff': 'TURN OFF',
+        'twoFactor.enabled': 'Two-factor authentication turned on',
+        'twoFactor.disabled': 'Two-factor authentication turned off',
+
+        'admin.column.fruit': 'Fruit',
+        'admin.column.movie': 'Movie',
+        'admin.column.number': 'Number',
+        'admin.search': 'Search users',
+        'admin.total': {
+            one: '{count} account',
+            other: '{count} accounts',
+        },
+        'admin.page': 'Page {page} of {pages}',
+        'admin.previous': 'PREV',
+        'admin.next': 'NEXT',
+        'admin.delete': 'DELETE',
+        'admin.confirmDelete': 'CONFIRM DELETE',
+        'admin.deletePrompt': 'Delete {username}? This cannot be undone.',
+        'admin.turnOffTwoFactor': 'TURN OFF 2FA',
+        'admin.loadFailed': 'Could not load users: {reason}',
+        'admin.updated': 'Updated {username}',
+        'admin.updateFailed': 'Could not update {username}',
+        'admin.deleted': 'Deleted {username}',
+        'admin.deleteFailed': 'Could not delete {username}',
+        'admin.twoFactorOff': 'Turned off two-factor authentication for {username}',
+        'admin.twoFactorOffFailed': 'Could not turn off two-factor authentication for {username}',
+        'admin.conflict': '{message}: the account was changed by someone else, reloaded the latest data',
+        'admin.export.csv': 'EXPORT CSV',
+        'admin.export.json': 'EXPORT JSON',
+        'admin.export.failed': 'Could not export users: {reason}',
+        'admin.import.title': 'Import users',
+        'admin.import.file': 'CSV or JSON file',
+        'admin.import.onConflict': 'When a username is taken',
+        'admin.import.policy.skip': 'Skip the row',
+        'admin.import.policy.overwrite': 'Overwrite the account',
+        'admin.import.policy.fail': 'Import nothing',
+        'admin.import.check': 'CHECK',
+        'admin.import.submit': 'IMPORT',
+        'admin.import.noFile': 'Choose a file to import',
+        'admin.import.checked': 'Ready: {created} to create, {updated} to update, {skipped} to skip; {conflicts} taken, {invalid} invalid',
+        'admin.import.done': 'Imported: {created} created, {updated} updated, {skipped} skipped',
+        'admin.import.failed': 'Could not import users: {reason}',
+        'admin.import.row': 'Row {row}: {message}',
+
+        'notFound.title': 'Page not found',
+        'notFound.message': 'There is nothing at {path}.',
+        'notFound.home': 'Back to the start',
+    },
+};
+
+export default en;
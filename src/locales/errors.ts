@@ -0,0 +1,37 @@
+import {ErrorBody} from '../api/client';
+import {MessageParams} from '../contexts/i18n';
+import {MessageKey} from './types';
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// The catalog message for each API error code, including the ones the client raises itself
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+    HTTP_ERROR: 'errors.requestFailed',
+    NOT_FOUND: 'errors.requestFailed',
+    INVALID_JSON: 'errors.requestFailed',
+    PAYLOAD_TOO_LARGE: 'errors.tooLarge',
+    INTERNAL_ERROR: 'errors.server',
+    NOT_AUTHENTICATED: 'errors.notAuthenticated',
+    SESSION_EXPIRED: 'errors.sessionExpired',
+    FORBIDDEN: 'errors.forbidden',
+    INVALID_CREDENTIALS: 'errors.invalidCredentials',
+    INVALID_SECOND_FACTOR: 'errors.invalidSecondFactor',
+    LOGIN_LOCKED: 'errors.tooManyAttempts',
+    RECOVERY_LOCKED: 'errors.tooManyAttempts',
+    RECOVERY_FAILED: 'errors.recoveryFailed',
+    ACCOUNT_NOT_FOUND: 'errors.accountNotFound',
+    ACCOUNT_EXISTS: 'errors.accountExists',
+    PRECONDITION_FAILED: 'errors.changedElsewhere',
+    TWO_FACTOR_ENABLED: 'errors.twoFactorEnabled',
+    TWO_FACTOR_DISABLED: 'errors.twoFactorDisabled',
+    IMPORT_CONFLICT: 'errors.importConflict',
+    VALIDATION_FAILED: 'errors.validationFailed',
+};
+
+// Words an API error in the current language by its code. Codes the catalogs have no message for
+// fall back to the API's English message.
+export const describeError = ({code, message}: Partial<ErrorBody>, t: Translate) => {
+    // fetch rejects with a plain TypeError, which has no code, when the API cannot be reached
+    if(!code) return t('errors.unreachable');
+    return ERROR_MESSAGES[code] ? t(ERROR_MESSAGES[code]) : message;
+}
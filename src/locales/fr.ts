@@ -0,0 +1,189 @@
+import {Catalog} from './types';
+
+const fr: Catalog = {
+    name: 'Français',
+    messages: {
+        'header.siteName': 'qa.code-quiz.dev',
+        'header.greeting': 'Bonjour {name}',
+        'header.language': 'Langue',
+        'header.theme': 'Thème',
+
+        'theme.system': 'Comme le système',
+        'theme.light': 'Clair',
+        'theme.dark': 'Sombre',
+        'theme.high-contrast': 'Contraste élevé',
+
+        'common.cancel': 'ANNULER',
+        'common.save': 'ENREGISTRER',
+        'common.edit': 'MODIFIER',
+        'common.close': 'FERMER',
+        'common.back': 'RETOUR',
+        'common.logIn': 'Se connecter',
+        'common.errorWithReason': '{message} : {reason}',
+        'common.lockedOut': 'Trop de tentatives de connexion. Réessayez dans {time}',
+
+        'fields.username': "Nom d'utilisateur",
+        'fields.name': 'Nom',
+        'fields.password': 'Mot de passe',
+        'fields.confirmPassword': 'Confirmer le mot de passe',
+        'fields.currentPassword': 'Mot de passe actuel',
+        'fields.newPassword': 'Nouveau mot de passe',
+        'fields.favouriteFruit': 'Fruit préféré',
+        'fields.favouriteMovie': 'Film préféré',
+        'fields.favouriteNumber': 'Nombre préféré',
+        'fields.role': 'Rôle',
+
+        'roles.user': 'utilisateur',
+        'roles.admin': 'administrateur',
+
+        'validation.required': '{field} est obligatoire',
+        'validation.tooLong': '{field} ne doit pas dépasser {max} caractères',
+        'validation.username': "Le nom d'utilisateur doit comporter 3 à 32 lettres, chiffres, points, tirets ou tirets bas",
+        'validation.passwordsDiffer': 'Les mots de passe ne correspondent pas',
+
+        'errors.unreachable': 'Impossible de joindre le serveur, veuillez réessayer',
+        'errors.requestFailed': 'La requête a échoué, veuillez réessayer',
+        'errors.server': 'Une erreur est survenue sur le serveur, veuillez réessayer',
+        'errors.notAuthenticated': "Vous n'êtes pas connecté",
+        'errors.sessionExpired': 'Votre session a expiré, veuillez vous reconnecter',
+        'errors.forbidden': "Vous n'êtes pas autorisé à faire cela",
+        'errors.invalidCredentials': 'Identifiants invalides',
+        'errors.invalidSecondFactor': 'Code de vérification invalide',
+        'errors.tooManyAttempts': 'Trop de tentatives échouées, veuillez réessayer plus tard',
+        'errors.recoveryFailed': 'Ces réponses ne correspondent pas à nos informations',
+        'errors.accountNotFound': "Ce compte n'existe pas",
+        'errors.accountExists': "Ce nom d'utilisateur est déjà pris",
+        'errors.changedElsewhere': "Le compte a été modifié par quelqu'un d'autre",
+        'errors.twoFactorEnabled': 'La double authentification est déjà activée',
+        'errors.twoFactorDisabled': "La double authentification n'est pas activée",
+        'errors.importConflict': "Certains noms d'utilisateur sont pris ou ont changé pendant l'import",
+        'errors.validationFailed': 'Certaines informations ne sont pas valides',
+        'errors.tooLarge': 'Trop de données à envoyer en une fois',
+
+        'login.usernamePlaceholder': "Saisissez votre nom d'utilisateur",
+        'login.passwordPlaceholder': 'mot de passe',
+        'login.show': 'Afficher',
+        'login.hide': 'Masquer',
+        'login.showPassword': 'Afficher le mot de passe',
+        'login.hidePassword': 'Masquer le mot de passe',
+        'login.inputMissing': 'Champs manquants',
+        'login.usernameRequired': "Le nom d'utilisateur est obligatoire",
+        'login.passwordRequired': 'Le mot de passe est obligatoire',
+        'login.submit': 'CONNEXION',
+        'login.registerPrompt': "Si vous n'avez pas de compte,",
+        'login.registerLink': 'inscrivez-vous ici',
+        'login.forgotPassword': 'Mot de passe oublié ?',
+
+        'secondFactor.instructions': "Saisissez le code à 6 chiffres de votre application d'authentification, ou l'un de vos codes de secours.",
+        'secondFactor.placeholder': 'Code de vérification',
+        'secondFactor.required': "Saisissez le code de votre application d'authentification",
+        'secondFactor.submit': 'VÉRIFIER',
+        'secondFactor.back': 'Retour à la connexion',
+
+        'register.submit': "S'INSCRIRE",
+        'register.failed': "L'inscription a échoué",
+        'register.haveAccount': 'Vous avez déjà un compte ?',
+
+        'recovery.question.favouriteFruit': 'Quel est votre fruit préféré ?',
+        'recovery.question.favouriteMovie': 'Quel est votre film préféré ?',
+        'recovery.question.favouriteNumber': 'Quel est votre nombre préféré ?',
+        'recovery.answerAll': 'Veuillez répondre aux deux questions',
+        'recovery.done': 'Votre mot de passe a été réinitialisé. Vous pouvez maintenant vous connecter avec.',
+        'recovery.continue': 'CONTINUER',
+        'recovery.verify': 'VÉRIFIER',
+        'recovery.reset': 'RÉINITIALISER',
+        'recovery.logIn': 'SE CONNECTER',
+        'recovery.remembered': 'Vous vous en souvenez ?',
+
+        'account.reloadLatest': 'RECHARGER',
+        'account.loadedLatest': 'Dernière version du profil chargée',
+        'account.reloadFailed': 'Impossible de recharger le profil : {reason}',
+        'account.updated': 'Profil mis à jour',
+        'account.conflict': 'Ce profil a été modifié ailleurs pendant que vous le modifiiez',
+        'account.updateFailed': 'Impossible de mettre à jour le profil : {reason}',
+        'account.changePassword': 'CHANGER LE MOT DE PASSE',
+        'account.passwordChanged': 'Mot de passe modifié',
+        'account.setUpTwoFactor': 'ACTIVER LA 2FA',
+        'account.turnOffTwoFactor': 'DÉSACTIVER LA 2FA',
+        'account.admin': 'ADMINISTRATION',
+        'account.logout': 'DÉCONNEXION',
+        'account.sessionExpires': 'La session expire le {time}',
+
+        'password.strength.0': 'Très faible',
+        'password.strength.1': 'Faible',
+        'password.strength.2': 'Moyen',
+        'password.strength.3': 'Bon',
+        'password.strength.4': 'Fort',
+        'password.class.lower': 'une lettre minuscule',
+        'password.class.upper': 'une lettre majuscule',
+        'password.class.digit': 'un chiffre',
+        'password.class.symbol': 'un symbole',
+        'password.rule.minLength': 'Au moins {min} caractères',
+        'password.rule.contains': 'Contient {description}',
+        'password.rule.history': {
+            one: 'Différent de votre dernier mot de passe',
+            other: 'Différent de vos {count} derniers mots de passe',
+        },
+        'password.missing': 'Manquant : {rule}',
+        'password.changeFailed': 'Impossible de changer le mot de passe : {reason}',
+        'password.submit': 'CHANGER',
+
+        'twoFactor.intro': "L'authentification à deux facteurs demande un code d'une application d'authentification à chaque connexion.",
+        'twoFactor.setUp': 'CONFIGURER',
+        'twoFactor.scan': "Scannez ce code avec votre application d'authentification, ou saisissez la clé à la main.",
+        'twoFactor.codePlaceholder': 'Code à 6 chiffres',
+        'twoFactor.confirm': 'CONFIRMER',
+        'twoFactor.recoveryCodes': "L'authentification à deux facteurs est activée. Conservez ces codes de secours en lieu sûr. Chacun permet une connexion si vous perdez votre appareil, et ils ne seront plus affichés.",
+        'twoFactor.done': 'TERMINÉ',
+        'twoFactor.disableInstructions': "Saisissez un code de votre application d'authentification, ou un code de secours, pour désactiver l'authentification à deux facteurs.",
+        'twoFactor.turnOff': 'DÉSACTIVER',
+        'twoFactor.enabled': 'Authentification à deux facteurs activée',
+        'twoFactor.disabled': 'Authentification à deux facteurs désactivée',
+
+        'admin.column.fruit': 'Fruit',
+        'admin.column.movie': 'Film',
+        'admin.column.number': 'Nombre',
+        'admin.search': 'Rechercher des utilisateurs',
+        'admin.total': {
+            one: '{count} compte',
+            other: '{count} comptes',
+        },
+        'admin.page': 'Page {page} sur {pages}',
+        'admin.previous': 'PRÉC.',
+        'admin.next': 'SUIV.',
+        'admin.delete': 'SUPPRIMER',
+        'admin.confirmDelete': 'CONFIRMER LA SUPPRESSION',
+        'admin.deletePrompt': 'Supprimer {username} ? Cette action est irréversible.',
+        'admin.turnOffTwoFactor': 'DÉSACTIVER LA 2FA',
+        'admin.loadFailed': 'Impossible de charger les utilisateurs : {reason}',
+        'admin.updated': '{username} mis à jour',
+        'admin.updateFailed': 'Impossible de mettre à jour {username}',
+        'admin.deleted': '{username} supprimé',
+        'admin.deleteFailed': 'Impossible de supprimer {username}',
+        'admin.twoFactorOff': 'Authentification à deux facteurs désactivée pour {username}',
+        'admin.twoFactorOffFailed': "Impossible de désactiver l'authentification à deux facteurs pour {username}",
+        'admin.conflict': "{message} : le compte a été modifié par quelqu'un d'autre, les dernières données ont été rechargées",
+        'admin.export.csv': 'EXPORTER EN CSV',
+        'admin.export.json': 'EXPORTER EN JSON',
+        'admin.export.failed': "Impossible d'exporter les utilisateurs : {reason}",
+        'admin.import.title': 'Importer des utilisateurs',
+        'admin.import.file': 'Fichier CSV ou JSON',
+        'admin.import.onConflict': "Quand un nom d'utilisateur est déjà pris",
+        'admin.import.policy.skip': 'Ignorer la ligne',
+        'admin.import.policy.overwrite': 'Remplacer le compte',
+        'admin.import.policy.fail': 'Ne rien importer',
+        'admin.import.check': 'VÉRIFIER',
+        'admin.import.submit': 'IMPORTER',
+        'admin.import.noFile': 'Choisissez un fichier à importer',
+        'admin.import.checked': 'Prêt : {created} à créer, {updated} à mettre à jour, {skipped} à ignorer ; {conflicts} déjà pris, {invalid} invalides',
+        'admin.import.done': 'Importé : {created} créés, {updated} mis à jour, {skipped} ignorés',
+        'admin.import.failed': "Impossible d'importer les utilisateurs : {reason}",
+        'admin.import.row': 'Ligne {row} : {message}',
+
+        'notFound.title': 'Page introuvable',
+        'notFound.message': "Il n'y a rien à l'adresse {path}.",
+        'notFound.home': "Retour à l'accueil",
+    },
+};
+
+export default fr;
@@ -0,0 +1,10 @@
+import {Catalog} from './types';
+import en from './en';
+import fr from './fr';
+import de from './de';
+
+// Every language the UI offers, keyed by locale code. Adding one is a new catalog file and a
+// line here; the switcher and the fallback to English pick it up from this list.
+export const CATALOGS: Record<string, Catalog> = {en, fr, de};
+
+export const DEFAULT_LOCALE = 'en';
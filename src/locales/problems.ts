@@ -0,0 +1,14 @@
+import {AccountProblem} from '../../shared/account';
+import {MessageParams} from '../contexts/i18n';
+import {MessageKey} from './types';
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Words a shared validator problem in the current language, naming the field by its label.
+// Problems the catalogs have no message for fall back to the validator's English one.
+export const describeProblem = ({code, message, limit}: AccountProblem, label: MessageKey, t: Translate) => {
+    if(code === 'required') return t('validation.required', {field: t(label)});
+    if(code === 'tooLong') return t('validation.tooLong', {field: t(label), max: limit as number});
+    if(code === 'format' && label === 'fields.username') return t('validation.username');
+    return message;
+}
@@ -0,0 +1,16 @@
+import en from './en';
+
+// The categories Intl.PluralRules#select returns
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A plain string, or one string per plural category picked by the {count} parameter.
+// "other" is required because every language falls back to it.
+export type Message = string | (Partial<Record<PluralCategory, string>> & {other: string});
+
+export type MessageKey = keyof typeof en.messages;
+
+export interface Catalog {
+    // The language's own name for itself, shown in the locale switcher
+    name: string,
+    messages: Record<MessageKey, Message>,
+}
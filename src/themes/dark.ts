@@ -0,0 +1,22 @@
+import {Theme} from './types';
+
+const dark: Theme = {
+    colors: {
+        primary: '#2FA8DB',
+        accent: '#FF6677',
+        link: '#2FA8DB',
+        error: '#FF6677',
+        onPrimary: '#101418',
+        text: '#E8E8E8',
+        page: '#101418',
+        panel: 'rgba(24, 28, 33, 0.85)',
+        header: '#1B2026',
+        input: '#232A31',
+        hover: 'rgba(232, 232, 232, 0.75)',
+        highlight: 'rgba(47, 168, 219, 0.25)',
+    },
+    font: "'Courier New', Courier, monospace",
+    backgroundOpacity: 0.15,
+};
+
+export default dark;
@@ -0,0 +1,23 @@
+import {Theme} from './types';
+
+// Solid black and white with yellow controls, and no background image behind the text
+const highContrast: Theme = {
+    colors: {
+        primary: '#FFFF00',
+        accent: '#00FFFF',
+        link: '#FFFF00',
+        error: '#00FFFF',
+        onPrimary: 'black',
+        text: 'white',
+        page: 'black',
+        panel: 'black',
+        header: 'black',
+        input: 'black',
+        hover: 'white',
+        highlight: '#333333',
+    },
+    font: "'Courier New', Courier, monospace",
+    backgroundOpacity: 0,
+};
+
+export default highContrast;
@@ -0,0 +1,12 @@
+import {Theme, ThemeName} from './types';
+import light from './light';
+import dark from './dark';
+import highContrast from './high-contrast';
+
+export const THEMES: Record<ThemeName, Theme> = {
+    light,
+    dark,
+    'high-contrast': highContrast,
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
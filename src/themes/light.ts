@@ -0,0 +1,22 @@
+import {Theme} from './types';
+
+const light: Theme = {
+    colors: {
+        primary: '#048ABF',
+        accent: '#F54458',
+        link: '#03668C',
+        error: '#C0283B',
+        onPrimary: 'white',
+        text: 'black',
+        page: 'white',
+        panel: 'rgba(247, 247, 247, 0.4)',
+        header: '#F2F2F2',
+        input: 'white',
+        hover: 'rgba(4, 138, 191, 0.75)',
+        highlight: 'rgba(4, 138, 191, 0.15)',
+    },
+    font: "'Courier New', Courier, monospace",
+    backgroundOpacity: 0.45,
+};
+
+export default light;
@@ -0,0 +1,7 @@
+import 'styled-components';
+import {Theme} from './types';
+
+// Types props.theme in every styled block
+declare module 'styled-components' {
+    export interface DefaultTheme extends Theme {}
+}
@@ -0,0 +1,30 @@
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+export interface Theme {
+    colors: {
+        // Buttons, borders and headings
+        primary: string,
+        // Focus rings, pressed buttons and error banners
+        accent: string,
+        // The primary and accent hues with enough contrast for small text, either drawn on a
+        // panel or behind onPrimary text
+        link: string,
+        error: string,
+        // Text drawn on primary or accent backgrounds
+        onPrimary: string,
+        text: string,
+        // Page behind the background image
+        page: string,
+        // The translucent panels each view is drawn on
+        panel: string,
+        header: string,
+        input: string,
+        // Border of a hovered button
+        hover: string,
+        // Background of a hovered table row
+        highlight: string,
+    },
+    font: string,
+    // How strongly the background image shows through; 0 hides it
+    backgroundOpacity: number,
+}
@@ -0,0 +1,31 @@
+import { APIRequestContext } from '@playwright/test';
+import { createClient, Transport } from '../src/api/client';
+
+// Sends the generated client's requests through Playwright's request fixture, as the session's
+// token when there is one
+export const requestTransport = (request: APIRequestContext, baseUrl: string, token?: string): Transport =>
+  async ({ method, path, query = {}, headers = {}, body }) => {
+    const params: Record<string, string> = {};
+    Object.keys(query).forEach(name => {
+      if (query[name] !== undefined) params[name] = String(query[name]);
+    });
+
+    const sent: Record<string, string> = {};
+    Object.keys(headers).forEach(name => {
+      if (headers[name] !== undefined) sent[name] = headers[name] as string;
+    });
+    if (token) sent['Authorization'] = `Bearer ${token}`;
+
+    const response = await request.fetch(`${baseUrl}${path}`, { method, params, headers: sent, data: body });
+    const text = await response.text();
+    const isJson = (response.headers()['content-type'] || '').includes('application/json');
+
+    return {
+      status: response.status(),
+      body: isJson ? JSON.parse(text) : text || undefined,
+      headers: response.headers(),
+    };
+  };
+
+export const apiClient = (request: APIRequestContext, baseUrl: string, token?: string) =>
+  createClient(requestTransport(request, baseUrl, token));
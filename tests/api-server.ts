@@ -0,0 +1,104 @@
+import { test as base } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const { createServer } = require('../mockedAPI/server');
+const { createLogger } = require('../mockedAPI/logger');
+
+// The accounts every test server starts from
+export const SEED_PATH = './storage/account.json';
+
+export type StorageBackend = 'json' | 'memory' | 'nedb';
+
+// The server's clock. It follows the real time until a test pins it with set(), and set() with no
+// time lets it follow the real time again.
+export interface TestClock {
+  now: () => number;
+  set: (time?: number) => void;
+}
+
+export interface ServerOptions {
+  // Settings read from the environment, on top of process.env
+  env?: Record<string, string>;
+  // Collects the server's log lines; it logs nothing without this
+  logs?: string[];
+  storageBackend?: StorageBackend;
+}
+
+export interface ApiServer {
+  url: string;
+  port: number;
+  // The server's own accounts file, for checking what was written; the memory backend has none
+  storagePath: string;
+  clock: TestClock;
+  // Puts the seed accounts back
+  reset: () => Promise<void>;
+  // Stops the server and starts another on the same storage, as a restart would
+  reopen: () => Promise<ApiServer>;
+  close: () => Promise<void>;
+}
+
+const STORAGE_FILES: Record<StorageBackend, string> = {
+  json: 'account.json',
+  memory: '',
+  nedb: 'account.db'
+};
+
+function createClock(): TestClock {
+  let pinned: number | undefined;
+  return {
+    now: () => pinned === undefined ? Date.now() : pinned,
+    set: (time?: number) => {
+      pinned = time;
+    }
+  };
+}
+
+async function listen(dir: string, options: ServerOptions, seed?: object): Promise<ApiServer> {
+  const { env = {}, logs, storageBackend = 'json' } = options;
+  const clock = createClock();
+  const storagePath = STORAGE_FILES[storageBackend] && path.join(dir, STORAGE_FILES[storageBackend]);
+  const server = await createServer({
+    storageBackend,
+    storagePath,
+    auditLogPath: path.join(dir, 'audit.log'),
+    seed,
+    env: { ...process.env, ...env },
+    logger: createLogger(logs ? { write: (line: string) => logs.push(line) } : { level: 'silent' }),
+    now: clock.now
+  });
+
+  return {
+    url: server.url,
+    port: server.port,
+    storagePath,
+    clock,
+    reset: () => server.reset(),
+    reopen: () => server.close().then(() => listen(dir, options)),
+    close: () => server.close().then(() => fs.rmSync(dir, { recursive: true, force: true }))
+  };
+}
+
+// Starts a mock API on a random port, seeded with the accounts in SEED_PATH, with its storage and
+// audit log in a temporary directory that close() removes
+export async function startServer(options: ServerOptions = {}): Promise<ApiServer> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-api-'));
+  return listen(dir, options, JSON.parse(fs.readFileSync(SEED_PATH, 'utf-8')));
+}
+
+// Each worker gets its own server, so tests running in parallel never share accounts, sessions or
+// lockouts. Requests with a relative URL go to it.
+export const test = base.extend<{}, { server: ApiServer }>({
+  server: [async ({}, use) => {
+    const server = await startServer();
+    await use(server);
+    await server.close();
+  }, { scope: 'worker' }],
+
+  baseURL: async ({ server }, use) => {
+    await use(server.url);
+  }
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,99 @@
+import { test, expect, Page } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+
+const TEST_DATA = {
+  validUser: {
+    username: 'SomeUser_name',
+    password: 'TopSecret1234!'
+  },
+  baseUrl: 'http://localhost:8080'
+};
+
+// WCAG 2.1 A and AA; axe's best-practice rules are advisory and left out
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+const expectNoViolations = async (page: Page) => {
+  const { violations } = await new AxeBuilder({ page }).withTags(WCAG_TAGS).analyze();
+  expect(violations.map(({ id, nodes }) => ({ id, targets: nodes.map(node => node.target) }))).toEqual([]);
+};
+
+const logIn = async (page: Page) => {
+  await page.getByLabel('Username').fill(TEST_DATA.validUser.username);
+  await page.getByLabel('Password', { exact: true }).fill(TEST_DATA.validUser.password);
+  await page.locator('button:has-text("LOGIN")').click();
+  await expect(page.locator('text=Hello')).toBeVisible();
+};
+
+test.describe('Accessibility Tests', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(TEST_DATA.baseUrl);
+  });
+
+  test('login page should have no WCAG violations', async ({ page }) => {
+    await expectNoViolations(page);
+  });
+
+  test('login page should have no WCAG violations in the dark and high-contrast themes', async ({ page }) => {
+    await page.emulateMedia({ colorScheme: 'dark' });
+    await expectNoViolations(page);
+
+    await page.locator('select[aria-label="Theme"]').selectOption('high-contrast');
+    await expectNoViolations(page);
+    await page.locator('select[aria-label="Theme"]').selectOption('');
+  });
+
+  test('login errors should be announced and tied to the inputs', async ({ page }) => {
+    await page.locator('button:has-text("LOGIN")').click();
+
+    const alert = page.getByRole('alert');
+    await expect(alert).toHaveText('Input missing');
+    await expect(page.getByLabel('Username')).toHaveAttribute('aria-invalid', 'true');
+    await expect(page.getByLabel('Username')).toHaveAttribute('aria-describedby', await alert.getAttribute('id'));
+    await expectNoViolations(page);
+  });
+
+  test('login form should follow a logical tab order with visible focus', async ({ page }) => {
+    await page.getByLabel('Username').focus();
+
+    await page.keyboard.press('Tab');
+    await expect(page.getByLabel('Password', { exact: true })).toBeFocused();
+    await page.keyboard.press('Tab');
+    await expect(page.locator('button:has-text("Show")')).toBeFocused();
+    await page.keyboard.press('Tab');
+    const loginButton = page.locator('button:has-text("LOGIN")');
+    await expect(loginButton).toBeFocused();
+    await expect(loginButton).not.toHaveCSS('outline-style', 'none');
+    await page.keyboard.press('Tab');
+    await expect(page.locator('a:has-text("register here")')).toBeFocused();
+    await page.keyboard.press('Tab');
+    await expect(page.locator('a:has-text("Forgot password?")')).toBeFocused();
+  });
+
+  test('account page should describe the profile as a definition list', async ({ page }) => {
+    await logIn(page);
+
+    const terms = page.locator('dl dt');
+    await expect(terms).toHaveText(['Name', 'Favourite Fruit', 'Favourite Movie', 'Favourite Number']);
+    await expect(page.locator('dl dd')).toHaveCount(4);
+    await expectNoViolations(page);
+  });
+
+  test('account edit form should label its inputs and focus the first error', async ({ page }) => {
+    await logIn(page);
+    await page.locator('button:has-text("EDIT")').click();
+
+    const name = page.getByLabel('Name', { exact: true });
+    await expect(name).toBeVisible();
+    await expectNoViolations(page);
+
+    await name.fill('');
+    await page.locator('button:has-text("SAVE")').click();
+    await expect(name).toBeFocused();
+    await expect(name).toHaveAttribute('aria-invalid', 'true');
+    await expect(page.locator(`#${await name.getAttribute('aria-describedby')}`)).toHaveText('Name is required');
+
+    await page.locator('button:has-text("CANCEL")').click();
+  });
+
+});
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, Page } from '@playwright/test';
 
 const TEST_DATA = {
   validUser: {
@@ -9,9 +9,34 @@ const TEST_DATA = {
     username: 'invaliduser',
     password: 'wrongpass'
   },
+  adminUser: {
+    username: 'admin',
+    password: 'AdminSecret1234!'
+  },
   baseUrl: 'http://localhost:8080'
 };
 
+const logIn = async (page: Page, user = TEST_DATA.validUser) => {
+  await page.locator('input[placeholder="Enter Username"]').fill(user.username);
+  await page.locator('input[placeholder="password"]').fill(user.password);
+  await page.locator('button:has-text("LOGIN")').click();
+};
+
+// The seeded account as the API returns it, for stubbed responses
+const SOME_USER = {
+  username: 'SomeUser_name',
+  name: 'SomeName',
+  role: 'user',
+  favouriteFruit: 'some fruit',
+  favouriteMovie: 'The Room',
+  favouriteNumber: 'BN<1234>',
+  twoFactorEnabled: false,
+  version: 1
+};
+
+// The API's error body, for stubbed failures
+const apiError = (code: string, message: string) => ({ error: { code, message } });
+
 test.describe('Login Page Tests', () => {
   
   test.beforeEach(async ({ page }) => {
@@ -33,7 +58,8 @@ test.describe('Login Page Tests', () => {
     await expect(loginButton).toBeVisible();
     await expect(loginButton).toBeEnabled();
     
-    await expect(page.locator('text=If you do not have an account, contact an admin')).toBeVisible();
+    await expect(page.locator('text=If you do not have an account')).toBeVisible();
+    await expect(page.locator('a:has-text("register here")')).toBeVisible();
   });
 
   test('should allow typing in input fields', async ({ page }) => {
@@ -98,6 +124,38 @@ test.describe('Login Page Tests', () => {
     await expect(page.locator('text=Invalid credentials')).toBeVisible();
   });
 
+  test('should word API errors in the chosen language', async ({ page }) => {
+    await page.locator('select[aria-label="Language"]').selectOption('fr');
+
+    await page.locator('input[placeholder="Saisissez votre nom d\'utilisateur"]').fill(TEST_DATA.invalidUser.username);
+    await page.locator('input[placeholder="mot de passe"]').fill(TEST_DATA.invalidUser.password);
+    await page.locator('button:has-text("CONNEXION")').click();
+
+    await expect(page.locator('text=Identifiants invalides')).toBeVisible();
+  });
+
+  test('should count down a lockout and then allow logging in', async ({ page }) => {
+    // Locking the real account would also lock out the tests running in the other browsers
+    await page.route('**/api/session', route => route.fulfill({
+      status: 429,
+      headers: { 'Retry-After': '2' },
+      json: apiError('LOGIN_LOCKED', 'Too many failed logins, try again in 2 seconds')
+    }));
+    const loginButton = page.locator('button:has-text("LOGIN")');
+
+    await logIn(page);
+
+    await expect(page.locator('#login-error')).toContainText('Too many failed logins. Try again in 0:0');
+    await expect(loginButton).toBeDisabled();
+
+    await page.unroute('**/api/session');
+    await expect(loginButton).toBeEnabled({ timeout: 5000 });
+    await expect(page.locator('#login-error')).toBeEmpty();
+
+    await loginButton.click();
+    await expect(page.locator('text=Hello')).toBeVisible();
+  });
+
   test('should handle empty form submission', async ({ page }) => {
     const loginButton = page.locator('button:has-text("LOGIN")');
     
@@ -129,6 +187,47 @@ test.describe('Login Page Tests', () => {
     await expect(page.locator('text=Hello')).toBeVisible();
   });
 
+  test('should mask the password until it is shown', async ({ page }) => {
+    const passwordInput = page.locator('input[placeholder="password"]');
+
+    await passwordInput.fill(TEST_DATA.validUser.password);
+    await expect(passwordInput).toHaveAttribute('type', 'password');
+
+    await page.locator('button:has-text("Show")').click();
+    await expect(passwordInput).toHaveAttribute('type', 'text');
+
+    await page.locator('button:has-text("Hide")').click();
+    await expect(passwordInput).toHaveAttribute('type', 'password');
+  });
+
+  test('should switch language and remember the choice', async ({ page }) => {
+    await page.locator('select[aria-label="Language"]').selectOption('fr');
+    await expect(page.locator('button:has-text("CONNEXION")')).toBeVisible();
+    await expect(page.locator('html')).toHaveAttribute('lang', 'fr');
+
+    await page.reload();
+    await expect(page.locator('button:has-text("CONNEXION")')).toBeVisible();
+
+    await page.locator('select[aria-label="Langue"]').selectOption('en');
+    await expect(page.locator('button:has-text("LOGIN")')).toBeVisible();
+  });
+
+  test('should follow the colour scheme until a theme is picked', async ({ page }) => {
+    const loginButton = page.locator('button:has-text("LOGIN")');
+
+    await page.emulateMedia({ colorScheme: 'dark' });
+    await expect(loginButton).toHaveCSS('background-color', 'rgb(47, 168, 219)');
+
+    await page.locator('select[aria-label="Theme"]').selectOption('high-contrast');
+    await expect(loginButton).toHaveCSS('background-color', 'rgb(255, 255, 0)');
+
+    await page.reload();
+    await expect(loginButton).toHaveCSS('background-color', 'rgb(255, 255, 0)');
+
+    await page.locator('select[aria-label="Theme"]').selectOption('');
+    await expect(loginButton).toHaveCSS('background-color', 'rgb(47, 168, 219)');
+  });
+
   test('should apply correct styling and visual states', async ({ page }) => {
     const usernameInput = page.locator('input[placeholder="Enter Username"]');
     const passwordInput = page.locator('input[placeholder="password"]');
@@ -151,7 +250,7 @@ test.describe('Login Page Tests', () => {
   test('should be responsive on different screen sizes', async ({ page }) => {
     await page.setViewportSize({ width: 375, height: 667 });
     
-    const loginForm = page.locator('.sc-ifAKCX');
+    const loginForm = page.locator('form:has(input[placeholder="Enter Username"])');
     await expect(loginForm).toBeVisible();
     
     await page.setViewportSize({ width: 768, height: 1024 });
@@ -161,4 +260,292 @@ test.describe('Login Page Tests', () => {
     await expect(loginForm).toBeVisible();
   });
 
-});
\ No newline at end of file
+});
+
+test.describe('Registration Tests', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(TEST_DATA.baseUrl);
+    await page.locator('a:has-text("register here")').click();
+  });
+
+  test('should show field errors for an empty form', async ({ page }) => {
+    await page.locator('button:has-text("REGISTER")').click();
+
+    await expect(page.locator('text=Username is required')).toBeVisible();
+    await expect(page.locator('text=Password is required')).toBeVisible();
+    await expect(page.locator('text=Favourite Movie is required')).toBeVisible();
+  });
+
+  test('should reject mismatched password confirmation', async ({ page }) => {
+    await page.locator('input[placeholder="Password"]').fill('LongEnough123');
+    await page.locator('input[placeholder="Confirm Password"]').fill('Different123');
+    await page.locator('button:has-text("REGISTER")').click();
+
+    await expect(page.locator('text=Passwords do not match')).toBeVisible();
+  });
+
+  test('should show a field error when the username is taken', async ({ page }) => {
+    await page.locator('input[placeholder="Username"]').fill(TEST_DATA.validUser.username);
+    await page.locator('input[placeholder="Name"]').fill('Someone Else');
+    await page.locator('input[placeholder="Password"]').fill('LongEnough123');
+    await page.locator('input[placeholder="Confirm Password"]').fill('LongEnough123');
+    await page.locator('input[placeholder="Favourite Fruit"]').fill('pear');
+    await page.locator('input[placeholder="Favourite Movie"]').fill('Heat');
+    await page.locator('input[placeholder="Favourite Number"]').fill('7');
+    await page.locator('button:has-text("REGISTER")').click();
+
+    await expect(page.locator('text=Username is already taken')).toBeVisible();
+  });
+
+  test('should return to the login form', async ({ page }) => {
+    await page.locator('a:has-text("Log in")').click();
+
+    await expect(page.locator('button:has-text("LOGIN")')).toBeVisible();
+  });
+
+});
+
+test.describe('Routing Tests', () => {
+
+  test('should send anonymous users to login and back to the page they asked for', async ({ page }) => {
+    await page.goto(`${TEST_DATA.baseUrl}/account/edit`);
+    await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/login?returnTo=%2Faccount%2Fedit`);
+
+    await logIn(page);
+
+    await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/account/edit`);
+    await expect(page.locator('input[name="name"]')).toBeVisible();
+  });
+
+  test('should keep non-admins out of the admin page', async ({ page }) => {
+    await page.goto(`${TEST_DATA.baseUrl}/admin`);
+    await logIn(page);
+
+    await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/account`);
+  });
+
+  for (const returnTo of ['//example.com', '/%5Cexample.com']) {
+    test(`should ignore return-to addresses on other sites (${returnTo})`, async ({ page }) => {
+      await page.goto(`${TEST_DATA.baseUrl}/login?returnTo=${returnTo}`);
+      await logIn(page);
+
+      await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/account`);
+    });
+  }
+
+  test('should support the back button', async ({ page }) => {
+    await page.goto(`${TEST_DATA.baseUrl}/login`);
+    await page.locator('a:has-text("register here")').click();
+    await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/register`);
+
+    await page.goBack();
+    await expect(page).toHaveURL(`${TEST_DATA.baseUrl}/login`);
+    await expect(page.locator('button:has-text("LOGIN")')).toBeVisible();
+  });
+
+  test('should show a not found page for unknown addresses', async ({ page }) => {
+    const response = await page.goto(`${TEST_DATA.baseUrl}/no/such/page`);
+    expect(response && response.status()).toBe(200);
+
+    await expect(page.locator('text=Page not found')).toBeVisible();
+    await page.locator('a:has-text("Back to the start")').click();
+    await expect(page).toHaveURL(/\/login\?returnTo=%2Faccount$/);
+  });
+
+});
+
+test.describe('Admin Console Tests', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(TEST_DATA.baseUrl);
+    await logIn(page, TEST_DATA.adminUser);
+    await page.locator('button:has-text("ADMIN")').click();
+  });
+
+  test('should delete a user once the delete is confirmed', async ({ page }) => {
+    // The API is shared with the other browsers, so the delete itself is stubbed
+    await page.route(/\/api\/user\?/, route => route.request().method() === 'DELETE' ? route.fulfill({ status: 204 }) : route.fallback());
+
+    await page.locator('tr:has-text("dummytree")').click();
+    await page.locator('button:has-text("DELETE")').click();
+    await expect(page.locator('text=Delete dummytree? This cannot be undone.')).toBeVisible();
+
+    await page.locator('button:has-text("CONFIRM DELETE")').click();
+    await expect(page.locator('text=Deleted dummytree')).toBeVisible();
+  });
+
+  test('should keep the user when the delete is cancelled', async ({ page }) => {
+    await page.locator('tr:has-text("dummytree")').click();
+    await page.locator('button:has-text("DELETE")').click();
+    await page.locator('button:has-text("CANCEL")').click();
+
+    await expect(page.locator('text=Delete dummytree? This cannot be undone.')).toBeHidden();
+    await expect(page.locator('button:has-text("DELETE")')).toBeVisible();
+  });
+
+  test('should say when the users cannot be loaded', async ({ page }) => {
+    await page.route(/\/api\/users\?/, route => route.fulfill({ status: 500, json: apiError('INTERNAL_ERROR', 'Storage unavailable') }));
+    await page.reload();
+
+    await expect(page.locator('text=Could not load users: Something went wrong on the server, please try again')).toBeVisible();
+  });
+
+  test('should download the users as CSV', async ({ page }) => {
+    const [download] = await Promise.all([
+      page.waitForEvent('download'),
+      page.locator('button:has-text("EXPORT CSV")').click()
+    ]);
+
+    expect(download.suggestedFilename()).toBe('users.csv');
+  });
+
+  test('should check an import file without importing it', async ({ page }) => {
+    // A check is a dry run, so the shared API is left as it was
+    await page.locator('#import-file').setInputFiles({
+      name: 'users.csv',
+      mimeType: 'text/csv',
+      buffer: Buffer.from('username,name,password,favouriteFruit,favouriteMovie,favouriteNumber\nnewcomer,New Comer,Abcdefgh1234!,Kiwi,Alien,3\n')
+    });
+    await page.locator('button:has-text("CHECK")').click();
+
+    await expect(page.locator('text=Ready: 1 to create, 0 to update, 0 to skip; 0 taken, 0 invalid')).toBeVisible();
+  });
+
+  test('should ask for a file before importing', async ({ page }) => {
+    await page.locator('button:has-text("CHECK")').click();
+
+    await expect(page.locator('text=Choose a file to import')).toBeVisible();
+  });
+
+});
+
+test.describe('Account Tests', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(TEST_DATA.baseUrl);
+    await logIn(page);
+  });
+
+  test('should save profile changes', async ({ page }) => {
+    // The API is shared with the other browsers, so the update itself is stubbed
+    await page.route(/\/api\/user\?/, route => route.request().method() === 'PUT'
+      ? route.fulfill({ json: { ...SOME_USER, ...route.request().postDataJSON(), version: 2 } })
+      : route.fallback());
+
+    await page.locator('button:has-text("EDIT")').click();
+    await page.locator('#account-name').fill('Renamed');
+    await page.locator('button:has-text("SAVE")').click();
+
+    await expect(page.locator('text=Profile updated')).toBeVisible();
+    await expect(page.locator('text=Hello Renamed')).toBeVisible();
+  });
+
+  test('should offer the latest profile when it changed elsewhere', async ({ page }) => {
+    await page.route(/\/api\/user\?/, route => route.request().method() === 'PUT'
+      ? route.fulfill({ status: 412, json: apiError('PRECONDITION_FAILED', 'Account was changed by another request') })
+      : route.fallback());
+
+    await page.locator('button:has-text("EDIT")').click();
+    await page.locator('#account-name').fill('Renamed');
+    await page.locator('button:has-text("SAVE")').click();
+    await expect(page.locator('text=This profile was changed somewhere else while you were editing it')).toBeVisible();
+
+    await page.locator('button:has-text("RELOAD LATEST")').click();
+    await expect(page.locator('text=Loaded the latest profile')).toBeVisible();
+    await expect(page.locator('#account-name')).toHaveValue(SOME_USER.name);
+  });
+
+  test('should rate the new password against the policy', async ({ page }) => {
+    await page.locator('button:has-text("CHANGE PASSWORD")').click();
+    await expect(page.locator('li:has-text("At least 8 characters")')).toBeVisible();
+    await expect(page.locator('li:has-text("Contains a number")')).toBeVisible();
+
+    await page.locator('#password-newPassword').fill('abc');
+    await expect(page.locator('text=Very weak')).toBeVisible();
+
+    await page.locator('#password-newPassword').fill('Abcdefgh1234!');
+    await expect(page.locator('text=Strong')).toBeVisible();
+  });
+
+  test('should list the rules a new password breaks', async ({ page }) => {
+    await page.locator('button:has-text("CHANGE PASSWORD")').click();
+    await page.locator('#password-currentPassword').fill(TEST_DATA.validUser.password);
+    await page.locator('#password-newPassword').fill('abc');
+    await page.locator('#password-confirmPassword').fill('abc');
+    await page.locator('button:has-text("CHANGE")').click();
+
+    await expect(page.locator('text=Missing: At least 8 characters')).toBeVisible();
+    await expect(page.locator('text=Missing: Contains a number')).toBeVisible();
+  });
+
+  test('should change the password', async ({ page }) => {
+    // Changing the real password would log out the tests running in the other browsers
+    await page.route('**/api/user/password', route => route.fulfill({ json: { ...SOME_USER, version: 2 } }));
+
+    await page.locator('button:has-text("CHANGE PASSWORD")').click();
+    await page.locator('#password-currentPassword').fill(TEST_DATA.validUser.password);
+    await page.locator('#password-newPassword').fill('Abcdefgh1234!');
+    await page.locator('#password-confirmPassword').fill('Abcdefgh1234!');
+    await page.locator('button:has-text("CHANGE")').click();
+
+    await expect(page.locator('text=Password changed')).toBeVisible();
+    await expect(page.locator('#password-newPassword')).toBeHidden();
+  });
+
+});
+
+test.describe('Password Recovery Tests', () => {
+
+  // The API is shared with the other browsers, so recovery is stubbed rather than resetting the real password
+  const CHALLENGE = {
+    challengeId: 'challenge-1',
+    questions: [
+      { field: 'favouriteFruit', question: 'What is your favourite fruit?' },
+      { field: 'favouriteMovie', question: 'What is your favourite movie?' }
+    ]
+  };
+
+  test.beforeEach(async ({ page }) => {
+    await page.route('**/api/password-reset/challenge', route => route.fulfill({ json: CHALLENGE }));
+    await page.goto(TEST_DATA.baseUrl);
+    await page.locator('a:has-text("Forgot password?")').click();
+    await page.locator('input[name="username"]').fill(TEST_DATA.validUser.username);
+    await page.locator('button:has-text("CONTINUE")').click();
+  });
+
+  const answerQuestions = async (page: Page) => {
+    await page.locator('input[name="favouriteFruit"]').fill(SOME_USER.favouriteFruit);
+    await page.locator('input[name="favouriteMovie"]').fill(SOME_USER.favouriteMovie);
+    await page.locator('button:has-text("VERIFY")').click();
+  };
+
+  test('should reset the password after the questions are answered', async ({ page }) => {
+    await page.route('**/api/password-reset/verify', route => route.fulfill({ json: { resetToken: 'reset-1' } }));
+    await page.route('**/api/password-reset', route => route.fulfill({ status: 204 }));
+
+    await expect(page.locator('text=What is your favourite fruit?')).toBeVisible();
+    await answerQuestions(page);
+
+    await page.locator('input[name="newPassword"]').fill('Abcdefgh1234!');
+    await page.locator('input[name="confirmPassword"]').fill('Abcdefgh1234!');
+    await page.locator('button:has-text("RESET PASSWORD")').click();
+    await expect(page.locator('text=Your password has been reset. You can now log in with it.')).toBeVisible();
+
+    await page.locator('button:has-text("LOG IN")').click();
+    await expect(page.locator('button:has-text("LOGIN")')).toBeVisible();
+  });
+
+  test('should say when the answers do not match', async ({ page }) => {
+    await page.route('**/api/password-reset/verify', route => route.fulfill({
+      status: 401,
+      json: apiError('RECOVERY_FAILED', 'Those answers do not match our records')
+    }));
+
+    await answerQuestions(page);
+
+    await expect(page.locator('text=Those answers do not match our records')).toBeVisible();
+    await expect(page.locator('input[name="newPassword"]')).toBeHidden();
+  });
+
+});
@@ -6,10 +6,24 @@ module.exports = {
   entry: "./src/index.tsx",
   output: {
     path: path.resolve(__dirname, "dist"),
-    filename: "bundle.js"
+    filename: "bundle.js",
+    // Absolute, so deep links such as /account/edit still load /bundle.js
+    publicPath: "/"
   },
   devServer: {
     compress: true,
+    // Serve index.html for every page URL and let the client-side router pick the page
+    historyApiFallback: true,
+    proxy: {
+      "/api": {
+        target: "http://localhost:9999",
+        pathRewrite: { "^/api": "" },
+        // Pass the browser's address on in X-Forwarded-For, so the API locks out clients one by one
+        // rather than everyone behind the dev server at once. The API only reads it with TRUST_PROXY=true,
+        // which npm run start:server sets
+        xfwd: true
+      }
+    }
   },
   module: {
     rules: [